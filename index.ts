@@ -1,187 +1,360 @@
-import { execSync } from "node:child_process";
 import { RamblyManager } from "./src/manager.ts";
-import type { RamblyPluginConfig } from "./src/types.ts";
-
-// Voice command patterns
-const COMMANDS = {
-  followMe: /^(?:follow me|come here|come with me|follow|come)$/i,
-  followName: /^follow\s+(\w+)$/i,
-  stopFollow: /^(?:stop following|unfollow|stop|stay here|stay)$/i,
-  leave: /^(?:leave|go away|bye|goodbye|disconnect)$/i,
-};
+import { generateResponse } from "./src/response-generator.ts";
+import { TurnManager, type Utterance } from "./src/turns.ts";
+import { evaluateResponsePolicy, addressNames, stripAddress } from "./src/policy.ts";
+import { createDefaultCommands } from "./src/voice-commands.ts";
+import { BehaviorEngine } from "./src/behaviors.ts";
+import { AccessControl } from "./src/permissions.ts";
+import { fail, summarizeResult, type ActionResults } from "./src/results.ts";
+import { describePresence, presencePrompt, SILENT_REPLY } from "./src/presence.ts";
+import { EMOTES, matchEmoteCue } from "./src/emotes.ts";
+import { parseReply, performReply } from "./src/reply-actions.ts";
+import { RamblyChannel } from "./src/channel.ts";
+import { formatClock, renderPersona } from "./src/persona.ts";
+import { mapNameOf } from "./src/pathfinding.ts";
+import { CONFIG_SCHEMA, loadConfig } from "./src/config.ts";
+import type { PresenceEvent } from "./src/types.ts";
 
 export default {
   id: "rambly",
   name: "Rambly Spatial Voice",
 
-  configSchema: {
-    type: "object",
-    properties: {
-      hearingRadius: { type: "number", default: 150 },
-      followDistance: { type: "number", default: 40 },
-      followStepSize: { type: "number", default: 20 },
-      daemonCommand: {
-        type: "string",
-        default: "npx tsx /home/dguttman/play/web/rambly/.worktrees/cli-client/cli/bin/rambly-client.ts",
-      },
-      defaultName: { type: "string", default: "Agent" },
-      voice: { type: "string", default: "nova" },
-    },
-  },
+  configSchema: CONFIG_SCHEMA,
 
   register(api: any) {
-    const pluginConfig: Partial<RamblyPluginConfig> = api.config?.plugins?.entries?.rambly?.config || {};
-    const manager = new RamblyManager(pluginConfig);
     const logger = api.logger;
-    
-    let responding = false;
-
-    // Try to handle voice command, returns response text if handled
-    async function handleVoiceCommand(speakerName: string, text: string): Promise<string | null> {
-      const trimmed = text.trim();
-      
-      // "follow me" or "come here"
-      if (COMMANDS.followMe.test(trimmed)) {
-        const result = await manager.follow(speakerName);
-        if (result.startsWith("Now following")) {
-          return "On my way!";
-        }
-        return result;
-      }
-      
-      // "follow [name]"
-      const followMatch = trimmed.match(COMMANDS.followName);
-      if (followMatch) {
-        const targetName = followMatch[1];
-        if (targetName.toLowerCase() !== "me") {
-          const result = await manager.follow(targetName);
-          if (result.startsWith("Now following")) {
-            return `Following ${targetName}.`;
-          }
-          return result;
-        }
-      }
-      
-      // "stop following" or "stay"
-      if (COMMANDS.stopFollow.test(trimmed)) {
-        const result = await manager.unfollow();
-        if (result.startsWith("Stopped following")) {
-          return "Okay, I'll stay here.";
-        } else if (result === "Not following anyone.") {
-          return "I wasn't following anyone.";
-        }
-        return result;
-      }
-      
-      // "leave" or "go away"
-      if (COMMANDS.leave.test(trimmed)) {
-        await manager.speak("Goodbye!");
-        await new Promise(r => setTimeout(r, 1500)); // Let TTS finish
-        await manager.leave();
-        return null; // Don't speak after leaving
+    // Throws a ConfigError listing every problem, so a bad config fails loudly at startup
+    const config = loadConfig(api.config?.plugins?.entries?.rambly?.config);
+    const manager = new RamblyManager(config, logger);
+    const commands = createDefaultCommands();
+    const access = new AccessControl(config, (denial) => {
+      logger?.warn?.(
+        `[Rambly ${denial.room}] Denied "${denial.command}" from ${denial.speaker.name} (${denial.speaker.id}): ` +
+        `needs ${denial.required}, has ${denial.tier}`,
+      );
+    });
+
+    // Per-room conversation turn-taking
+    const turns = new Map<string, TurnManager>();
+
+    function turnsFor(room: string): TurnManager {
+      let turnManager = turns.get(room);
+      if (!turnManager) {
+        turnManager = new TurnManager((utterances, context) => takeTurn(room, utterances, context), {
+          maxQueue: config.turnMaxQueue,
+          responseDelayMs: config.turnResponseDelayMs,
+          mergeWindowMs: config.turnMergeWindowMs,
+        });
+        turns.set(room, turnManager);
       }
-      
-      return null; // Not a command
+      return turnManager;
     }
 
-    // Transcript handler with voice commands
-    manager.setTranscriptHandler((from, name, text, distance) => {
-      logger?.info(`[Rambly] Heard: ${name}: "${text}"`);
-      
-      if (responding) {
-        logger?.info(`[Rambly] Skipping (already responding)`);
-        return;
+    // Greetings, idle wandering and auto-leave, when enabled
+    const behaviors = new BehaviorEngine(
+      manager,
+      config,
+      (room) => {
+        const turnManager = turns.get(room);
+        return !!turnManager && (turnManager.busy || turnManager.pending > 0);
+      },
+      logger,
+    );
+    manager.setBehaviorStatus((room) => behaviors.status(room));
+    behaviors.start();
+
+    // Presence changes not yet passed to the agent, per room
+    const presence = new Map<string, PresenceEvent[]>();
+
+    // How the actions in the agent's last reply went, per room, for its next prompt
+    const actionResults = new Map<string, string[]>();
+
+    // With the channel backend, room speech goes into an agent session and
+    // whatever the agent sends to a room on the channel is spoken there
+    let channel: RamblyChannel | null = null;
+    if (config.responseBackend === "channel") {
+      if (api.registerChannel && api.runtime?.channel?.reply) {
+        channel = new RamblyChannel(api.runtime.channel, api.config, () => manager.getRooms(), (room, text) =>
+          speakReply(room, text, []),
+        );
+        api.registerChannel({ plugin: channel.plugin() });
+      } else {
+        logger?.warn?.("[Rambly] This OpenClaw has no channel API; replying through the embedded backend instead");
       }
-      
-      responding = true;
-      
-      const roomName = manager.getRoom();
-      if (!roomName) {
-        responding = false;
+    }
+
+    // Answer everything said since the last turn
+    async function takeTurn(roomName: string, utterances: Utterance[], context: Utterance[]): Promise<void> {
+      if (!manager.getRooms().includes(roomName)) {
+        turns.get(roomName)?.close();
+        turns.delete(roomName);
+        presence.delete(roomName);
+        actionResults.delete(roomName);
         return;
       }
 
-      // Try voice command first
-      handleVoiceCommand(name, text).then(async (cmdResponse) => {
-        if (cmdResponse !== null) {
-          // Command was handled
+      try {
+        // Voice commands first, in the order they were said
+        const names = addressNames({
+          agentName: manager.getListeningContext(roomName)?.agentName ?? null,
+          aliases: config.wakeWords,
+        });
+        const chat: Utterance[] = [];
+        for (const u of utterances) {
+          const cmdResponse = await commands.handle(stripAddress(u.text, names), {
+            manager,
+            room: roomName,
+            speaker: { id: u.from, name: u.name },
+            peers: manager.getPeers(roomName),
+            followDistance: config.followDistance,
+            access,
+          });
+          if (cmdResponse === null) {
+            chat.push(u);
+            continue;
+          }
           if (cmdResponse) {
-            logger?.info(`[Rambly] Command response: "${cmdResponse}"`);
-            await manager.speak(cmdResponse);
+            logger?.info(`[Rambly ${roomName}] Command response: "${cmdResponse}"`);
+            await manager.speak(cmdResponse, roomName);
           }
+          // A leave command ends the turn
+          if (!manager.getRooms().includes(roomName)) return;
+        }
+        // With nobody to answer, a turn is only for someone coming or going
+        const cameOrWent = utterances.length === 0 ? presence.get(roomName) ?? [] : [];
+        if (chat.length === 0 && cameOrWent.length === 0) return;
+
+        const speakers = [...new Set(chat.map((u) => u.name))];
+        // Who the turn is about: whoever spoke or, failing that, whoever came or went
+        const about = speakers.length > 0 ? speakers : [...new Set(cameOrWent.map((e) => e.name))];
+        // The room context already holds the overheard lines, from the log
+        const roomContext = manager.getRoomContext(roomName, chat);
+        const roomConfig = manager.getRoomConfig(roomName);
+        const listening = manager.getListeningContext(roomName);
+        // Taken now, so anything that happens while the agent thinks is kept for next time
+        const events = presence.get(roomName);
+        const lastResults = actionResults.get(roomName);
+        presence.delete(roomName);
+        actionResults.delete(roomName);
+
+        if (channel) {
+          const speech = {
+            room: roomName,
+            sessionKey: roomConfig.channelSessionKey,
+            agentId: roomConfig.agentId,
+            lines: chat,
+            persona: renderPersona(roomConfig.persona, {
+              agent: listening?.agentName ?? roomConfig.defaultName,
+              room: roomName,
+              map: mapNameOf(roomName),
+              speaker: about.join(", "),
+              peers: listening?.peersInRange.map((p) => p.name).join(", ") || "nobody",
+              time: formatClock(),
+            }),
+            roomContext,
+            actions: config.replyActions,
+            overheard: roomContext ? undefined : context,
+            presence: events,
+            actionResults: lastResults,
+          };
+          logger?.info(`[Rambly ${roomName}] Passing to the agent session...`);
+          await channel.dispatch(speech, (text) => speakReply(roomName, text, chat));
           return;
         }
-        
-        // Not a command - generate chat response
-        const prompt = `[Rambly voice chat, room: ${roomName}] ${name} says: "${text}". Respond briefly (1-2 sentences) as if speaking aloud. Do not use markdown or formatting.`;
-        
-        try {
-          logger?.info(`[Rambly] Getting agent response...`);
-          const response = execSync(
-            `openclaw agent --message "${prompt.replace(/"/g, '\\"')}" --no-deliver 2>/dev/null`,
-            { encoding: 'utf8', timeout: 30000 }
-          ).trim();
-          
-          if (response) {
-            logger?.info(`[Rambly] Speaking: "${response}"`);
-            await manager.speak(response);
-          }
-        } catch (err) {
-          logger?.error(`[Rambly] Agent call failed: ${err}`);
+
+        const userMessage = chat.length === 0
+          ? presencePrompt(cameOrWent)
+          : speakers.length === 1
+            ? chat.map((u) => u.text).join(" ")
+            : chat.map((u) => `${u.name}: ${u.text}`).join("\n");
+
+        logger?.info(`[Rambly ${roomName}] Getting agent response (${config.responseBackend})...`);
+        const result = await generateResponse(config.responseBackend, {
+          coreConfig: api.config,
+          roomName,
+          userMessage,
+          userName: about.join(", "),
+          agentName: listening?.agentName ?? roomConfig.defaultName,
+          peers: listening?.peersInRange.map((p) => p.name) ?? [],
+          settings: roomConfig,
+          context: roomContext ? undefined : context.map((u) => ({ name: u.name, text: u.text })),
+          roomContext,
+          presence: chat.length === 0 ? undefined : events,
+          actions: config.replyActions,
+          actionResults: lastResults,
+        });
+
+        if (result.error) {
+          logger?.error(`[Rambly ${roomName}] Agent call failed: ${result.error}`);
+          return;
         }
-      }).catch(err => {
-        logger?.error(`[Rambly] Command failed: ${err}`);
-      }).finally(() => {
-        responding = false;
+        if (result.text) await speakReply(roomName, result.text, chat);
+      } catch (err) {
+        logger?.error(`[Rambly ${roomName}] Turn failed: ${err}`);
+      }
+    }
+
+    // Speak a reply and carry out its actions, within what the people it answers may ask for
+    async function speakReply(roomName: string, text: string, answering: Utterance[]): Promise<void> {
+      if (text.trim() === SILENT_REPLY) return;
+      const reply = config.replyActions ? parseReply(text) : { steps: [{ say: text }], invalid: [] };
+      const reports = await performReply(reply, {
+        manager,
+        room: roomName,
+        speakers: [...new Map(answering.map((u) => [u.from, { id: u.from, name: u.name }])).values()],
+        access,
+        commands,
+        followDistance: config.followDistance,
+        say: (part) => say(roomName, part),
       });
+      for (const report of reports) logger?.info(`[Rambly ${roomName}] Action ${report}`);
+      if (reports.length > 0 && manager.getRooms().includes(roomName)) {
+        actionResults.set(roomName, [...(actionResults.get(roomName) ?? []), ...reports]);
+      }
+    }
+
+    // Speak part of a reply, playing any emote it cues; false if it didn't finish
+    async function say(roomName: string, text: string): Promise<boolean> {
+      const cue = matchEmoteCue(text, config.emoteCues);
+      if (cue) {
+        text = cue.text;
+        const emoted = await manager.emote(cue.emote, roomName);
+        if (!emoted.ok) logger?.warn?.(`[Rambly ${roomName}] Emote failed: ${emoted.error}`);
+      }
+      if (!text) return true;
+      logger?.info(`[Rambly ${roomName}] Speaking: "${text}"`);
+      const spoken = await manager.speak(text, roomName);
+      behaviors.noteSpeech(roomName);
+      if (!spoken.ok) {
+        logger?.error(`[Rambly ${roomName}] Speak failed: ${spoken.error}`);
+        return false;
+      }
+      if (spoken.interrupted) {
+        logger?.info(`[Rambly ${roomName}] Cut off before: "${spoken.cutOff}"`);
+        return false;
+      }
+      return true;
+    }
+
+    manager.setTranscriptHandler((roomName, from, name, text, distance) => {
+      logger?.info(`[Rambly ${roomName}] Heard: ${name}: "${text}"`);
+      behaviors.noteSpeech(roomName);
+      const turnManager = turnsFor(roomName);
+      const utterance = { from, name, text, distance, time: Date.now() };
+
+      const listening = manager.getListeningContext(roomName);
+      const decision = evaluateResponsePolicy(manager.getRoomConfig(roomName).responsePolicy, { id: from, name, text }, {
+        agentName: listening?.agentName ?? null,
+        aliases: config.wakeWords,
+        followTarget: listening?.followTarget ?? null,
+        peersInRange: listening?.peersInRange ?? [],
+      });
+      if (!decision.respond) {
+        logger?.info(`[Rambly ${roomName}] Not responding (${decision.reason}); keeping as context`);
+        turnManager.remember(utterance);
+        return;
+      }
+
+      turnManager.push(utterance);
+      if (turnManager.busy) {
+        logger?.info(`[Rambly ${roomName}] Queued for next turn (${turnManager.pending} waiting)`);
+      }
+    });
+
+    manager.setPresenceHandler((event) => {
+      logger?.info(`[Rambly ${event.room}] ${describePresence(event)}`);
+      const events = presence.get(event.room) ?? [];
+      events.push(event);
+      if (events.length > 20) events.shift();
+      presence.set(event.room, events);
+      behaviors.handlePresence(event);
+      // A greeting behavior already answers arrivals
+      const greeted = event.type === "entered_range" && config.greetOnArrival;
+      if (config.reactToPresence && !greeted) turnsFor(event.room).nudge();
     });
 
     // Register tool
     api.registerTool(
       {
         name: "rambly_room",
-        description: "Interact with Rambly spatial voice chat rooms. Actions: join, leave, speak, move, follow, unfollow, status, list.",
+        description: "Interact with Rambly spatial voice chat rooms. Actions: join, leave, speak, stop_speaking, character, emote, move, goto, join_group, landmarks, save_landmark, follow, unfollow, status, list, history. Multiple rooms can be joined at once; pass `room` to target one (required when more than one is joined).",
         parameters: {
           type: "object",
           properties: {
-            action: { type: "string", enum: ["join", "leave", "speak", "move", "follow", "unfollow", "status", "list"] },
-            room: { type: "string" },
-            name: { type: "string" },
+            action: { type: "string", enum: ["join", "leave", "speak", "stop_speaking", "character", "emote", "move", "goto", "join_group", "landmarks", "save_landmark", "follow", "unfollow", "status", "list", "history"] },
+            room: { type: "string", description: "Room to target, e.g. forest:standup. Required for join." },
+            name: { type: "string", description: "Agent name for join, peer for follow/join_group, landmark for goto/save_landmark" },
             text: { type: "string" },
+            character: { type: "string", description: "Sprite to appear as, for join or character" },
+            emote: { type: "string", enum: [...EMOTES] },
             x: { type: "number" },
             y: { type: "number" },
+            radius: { type: "number", description: "Make a saved landmark an area of this radius" },
+            speaker: { type: "string", description: "history: speaker name or id" },
+            since: { type: "string", description: "history: ISO date or relative time like 30m, 2h, 7d" },
+            until: { type: "string", description: "history: ISO date or relative time" },
+            search: { type: "string", description: "history: words that must appear in the text" },
+            limit: { type: "number", description: "history: page size (default 20, max 100)" },
+            offset: { type: "number", description: "history: entries to skip, for paging" },
           },
           required: ["action"],
         },
         async execute(_id: string, params: any) {
-          let result: string;
+          // Short human summary first, then the structured result as JSON
+          const reply = <A extends keyof ActionResults>(action: A, result: ActionResults[A]) => ({
+            content: [
+              { type: "text", text: summarizeResult(action, result) },
+              { type: "text", text: JSON.stringify(result) },
+            ],
+            details: result,
+          });
+          const missing = (what: string) => fail("invalid_params", `${what} required`);
+
           switch (params.action) {
             case "join":
-              result = params.room ? await manager.join(params.room, params.name) : "Error: room required";
-              break;
+              return reply("join", params.room ? await manager.join(params.room, params.name, params.character) : missing("room"));
             case "leave":
-              result = await manager.leave();
-              break;
+              return reply("leave", await manager.leave(params.room));
             case "speak":
-              result = params.text ? await manager.speak(params.text) : "Error: text required";
-              break;
+              return reply("speak", params.text ? await manager.speak(params.text, params.room) : missing("text"));
+            case "stop_speaking":
+              return reply("stop_speaking", await manager.stopSpeaking(params.room));
+            case "character":
+              return reply("character", params.character ? await manager.setCharacter(params.character, params.room) : missing("character"));
+            case "emote":
+              return reply("emote", params.emote ? await manager.emote(params.emote, params.room) : missing("emote"));
             case "move":
-              result = (params.x != null && params.y != null) ? await manager.move(params.x, params.y) : "Error: x,y required";
-              break;
+              return reply("move", (params.x != null && params.y != null) ? await manager.move(params.x, params.y, params.room) : missing("x,y"));
+            case "goto":
+              return reply("goto", params.name ? await manager.goto(params.name, params.room) : missing("name"));
+            case "join_group":
+              return reply("join_group", await manager.joinGroup(params.name, params.room));
+            case "landmarks":
+              return reply("landmarks", await manager.listLandmarks(params.room));
+            case "save_landmark":
+              return reply("save_landmark", params.name ? await manager.saveLandmark(params.name, params.room, params.radius) : missing("name"));
             case "follow":
-              result = params.name ? await manager.follow(params.name) : "Error: name required";
-              break;
+              return reply("follow", params.name ? await manager.follow(params.name, params.room) : missing("name"));
             case "unfollow":
-              result = await manager.unfollow();
-              break;
+              return reply("unfollow", await manager.unfollow(params.room));
             case "status":
             case "list":
-              result = await manager.status();
-              break;
-            default:
-              result = `Unknown action: ${params.action}`;
+              return reply("status", await manager.status(params.room));
+            case "history":
+              return reply("history", await manager.history({
+                room: params.room,
+                speaker: params.speaker,
+                since: params.since,
+                until: params.until,
+                text: params.search,
+                limit: params.limit,
+                offset: params.offset,
+              }));
+            default: {
+              const result = fail("invalid_params", `Unknown action: ${params.action}`);
+              return { content: [{ type: "text", text: `Error: ${result.error}` }, { type: "text", text: JSON.stringify(result) }], details: result };
+            }
           }
-          return { content: [{ type: "text", text: result }] };
         },
       },
       { optional: false },
@@ -191,7 +364,10 @@ export default {
       id: "rambly-lifecycle",
       name: "Rambly Lifecycle",
       async start() {},
-      async stop() { await manager.leave(); },
+      async stop() {
+        behaviors.stop();
+        await manager.leaveAll();
+      },
     });
   },
 };
@@ -0,0 +1,197 @@
+/**
+ * Opt-in things the agent does on its own: greeting people who walk up,
+ * strolling around when nobody is nearby, and leaving a room that has
+ * emptied out. Everything pauses while the agent is following someone or
+ * in the middle of a conversation.
+ */
+
+import type { RamblyManager } from "./manager.ts";
+import type { BehaviorStatus, PresenceEvent, RamblyLogger, RamblyPluginConfig } from "./types.ts";
+import type { Point } from "./pathfinding.ts";
+
+export type BehaviorOptions = Pick<
+  RamblyPluginConfig,
+  | "greetOnArrival"
+  | "greetCooldownMs"
+  | "greetMessage"
+  | "idleWander"
+  | "wanderIntervalMs"
+  | "wanderRadius"
+  | "autoLeaveAfterMs"
+  | "conversationIdleMs"
+>;
+
+// How often wandering and auto-leave are checked
+const TICK_MS = 1000;
+
+interface RoomBehavior {
+  // Where the agent was when behaviors first saw the room; wandering stays near it
+  home: Point | null;
+  lastGreeted: { name: string; time: number } | null;
+  // Lowercased peer name -> last greeting time
+  greeted: Map<string, number>;
+  walking: boolean;
+  lastWanderAt: number;
+  emptySince: number | null;
+  // Last line heard or said, for conversation detection
+  lastSpeechAt: number;
+}
+
+export class BehaviorEngine {
+  private rooms = new Map<string, RoomBehavior>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private manager: RamblyManager,
+    private options: BehaviorOptions,
+    // True while a reply is being worked out or queued in the room
+    private isReplying: (room: string) => boolean = () => false,
+    private logger?: RamblyLogger,
+  ) {}
+
+  get enabled(): boolean {
+    const o = this.options;
+    return o.greetOnArrival || o.idleWander || o.autoLeaveAfterMs > 0;
+  }
+
+  start(tickMs = TICK_MS): void {
+    if (this.timer || !this.enabled) return;
+    this.timer = setInterval(() => this.tick(), tickMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.rooms.clear();
+  }
+
+  /**
+   * Note that something was said in the room, by a peer or by the agent in
+   * reply. Greetings don't count, so several arrivals can all be greeted.
+   */
+  noteSpeech(room: string, now = Date.now()): void {
+    this.roomFor(room).lastSpeechAt = now;
+  }
+
+  handlePresence(event: PresenceEvent): void {
+    if (event.type !== "entered_range" || !this.options.greetOnArrival || !this.timer) return;
+    const state = this.roomFor(event.room);
+    if (this.suspension(event.room, state)) return;
+
+    const key = event.name.toLowerCase();
+    const last = state.greeted.get(key);
+    if (last != null && event.time - last < this.options.greetCooldownMs) return;
+
+    state.greeted.set(key, event.time);
+    state.lastGreeted = { name: event.name, time: event.time };
+    const text = this.options.greetMessage.replace(/\{name\}/g, event.name);
+    this.manager.speak(text, event.room).then((result) => {
+      if (!result.ok) this.logger?.warn?.(`[Rambly ${event.room}] Greeting failed: ${result.error}`);
+    });
+  }
+
+  status(room: string, now = Date.now()): BehaviorStatus | null {
+    if (!this.timer) return null;
+    const state = this.roomFor(room);
+    const { options } = this;
+    const emptyForMs = state.emptySince != null ? now - state.emptySince : null;
+    return {
+      suspended: this.suspension(room, state, now),
+      greet: { enabled: options.greetOnArrival, lastGreeted: state.lastGreeted },
+      wander: {
+        enabled: options.idleWander,
+        walking: state.walking,
+        nextInMs: options.idleWander && !state.walking
+          ? Math.max(0, state.lastWanderAt + options.wanderIntervalMs - now)
+          : null,
+      },
+      autoLeave: {
+        enabled: options.autoLeaveAfterMs > 0,
+        emptyForMs,
+        leavesInMs: options.autoLeaveAfterMs > 0 && emptyForMs != null
+          ? Math.max(0, options.autoLeaveAfterMs - emptyForMs)
+          : null,
+      },
+    };
+  }
+
+  /** @internal Exposed for tests; runs on the interval otherwise. */
+  tick(now = Date.now()): void {
+    const joined = new Set(this.manager.getRooms());
+    for (const room of this.rooms.keys()) {
+      if (!joined.has(room)) this.rooms.delete(room);
+    }
+
+    for (const room of joined) {
+      const state = this.roomFor(room, now);
+      state.home ??= this.manager.getPosition(room);
+
+      const peers = this.manager.getPeers(room);
+      if (peers.length > 0) {
+        state.emptySince = null;
+      } else {
+        state.emptySince ??= now;
+      }
+
+      if (this.suspension(room, state, now)) continue;
+
+      const { autoLeaveAfterMs } = this.options;
+      if (autoLeaveAfterMs > 0 && state.emptySince != null && now - state.emptySince >= autoLeaveAfterMs) {
+        this.logger?.info(`[Rambly ${room}] Room empty for ${Math.round((now - state.emptySince) / 1000)}s; leaving`);
+        this.rooms.delete(room);
+        this.manager.leave(room);
+        continue;
+      }
+
+      const anyoneNear = this.manager.getListeningContext(room)?.peersInRange.length ?? 0;
+      if (this.options.idleWander && !anyoneNear && !state.walking && now - state.lastWanderAt >= this.options.wanderIntervalMs) {
+        this.wander(room, state, now);
+      }
+    }
+  }
+
+  private wander(room: string, state: RoomBehavior, now: number) {
+    const home = state.home;
+    if (!home) return;
+    // Uniform over the disc around home
+    const angle = Math.random() * 2 * Math.PI;
+    const r = this.options.wanderRadius * Math.sqrt(Math.random());
+    const x = Math.round(home.x + Math.cos(angle) * r);
+    const y = Math.round(home.y + Math.sin(angle) * r);
+
+    state.walking = true;
+    state.lastWanderAt = now;
+    this.manager.move(x, y, room).then((result) => {
+      state.walking = false;
+      // Unreachable spots and interruptions are expected; just try again later
+      if (!result.ok && result.code !== "unreachable" && result.code !== "interrupted") {
+        this.logger?.warn?.(`[Rambly ${room}] Wander failed: ${result.error}`);
+      }
+    });
+  }
+
+  private suspension(room: string, state: RoomBehavior, now = Date.now()): BehaviorStatus["suspended"] {
+    if (this.manager.getListeningContext(room)?.followTarget) return "following";
+    if (this.isReplying(room) || now - state.lastSpeechAt < this.options.conversationIdleMs) return "conversation";
+    return null;
+  }
+
+  private roomFor(room: string, now = Date.now()): RoomBehavior {
+    let state = this.rooms.get(room);
+    if (!state) {
+      state = {
+        home: null,
+        lastGreeted: null,
+        greeted: new Map(),
+        walking: false,
+        lastWanderAt: now,
+        emptySince: null,
+        lastSpeechAt: 0,
+      };
+      this.rooms.set(room, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Rambly as an OpenClaw message channel. Speech heard in a room goes into an
+ * agent session as an inbound message tagged with the room and speakers, and
+ * what the agent sends back on the channel is spoken in that room.
+ */
+
+import crypto from "node:crypto";
+import type { CoreConfig } from "./core-bridge.ts";
+import { describePresence, presencePrompt } from "./presence.ts";
+import { REPLY_ACTIONS_PROMPT } from "./reply-actions.ts";
+import type { PresenceEvent } from "./types.ts";
+
+export const CHANNEL_ID = "rambly";
+
+// The parts of the plugin runtime's channel API the plugin uses
+export type ChannelRuntime = {
+  reply: {
+    finalizeInboundContext: (ctx: Record<string, unknown>) => Record<string, unknown>;
+    dispatchReplyWithBufferedBlockDispatcher: (params: {
+      ctx: Record<string, unknown>;
+      cfg: CoreConfig;
+      dispatcherOptions: {
+        deliver: (payload: { text?: string; isError?: boolean }) => Promise<void>;
+        onError?: (err: unknown) => void;
+      };
+    }) => Promise<unknown>;
+  };
+};
+
+export interface InboundSpeech {
+  room: string;
+  // Session the room's speech goes to; "" for the agent's main session
+  sessionKey: string;
+  agentId: string;
+  // Empty for a turn taken because someone came or went
+  lines: Array<{ from: string; name: string; text: string; time: number }>;
+  // The room's persona prompt, filled in for this turn
+  persona?: string;
+  // The room as a whole: position, who's nearby, recent conversation (see room-context.ts)
+  roomContext?: string | null;
+  // Tell the agent it can act through [[...]] directives
+  actions?: boolean;
+  // Said nearby beforehand, not addressed to the agent; left out when the room context has it
+  overheard?: Array<{ name: string; text: string }>;
+  // Who came and went, and how the agent's last actions went, since it last replied
+  presence?: PresenceEvent[];
+  actionResults?: string[];
+}
+
+// Speaks a reply in a room
+export type SpeakInRoom = (room: string, text: string) => Promise<void>;
+
+/**
+ * How a line of speech reads in the agent's session:
+ * `[Rambly forest:haku-test] David: Hey Haku, what's up?`
+ */
+export function formatInboundLine(room: string, name: string, text: string): string {
+  return `[Rambly ${room}] ${name}: ${text}`;
+}
+
+export function formatInboundBody(speech: InboundSpeech): string {
+  const body: string[] = [];
+  if (speech.persona) body.push(`(${speech.persona})`);
+  if (speech.roomContext) body.push(`(The room right now:\n${speech.roomContext})`);
+  if (speech.actions) body.push(`(${REPLY_ACTIONS_PROMPT})`);
+  const overheard = (speech.overheard ?? []).map((l) => formatInboundLine(speech.room, l.name, l.text));
+  if (overheard.length > 0) body.push(`(Overheard before this, not addressed to you:\n${overheard.join("\n")})`);
+  body.push(...speech.lines.map((l) => formatInboundLine(speech.room, l.name, l.text)));
+  const presence = (speech.presence ?? []).map((e) => `- ${describePresence(e)}`);
+  if (speech.lines.length === 0) {
+    body.push(presencePrompt(speech.presence ?? []));
+  } else if (presence.length > 0) {
+    body.push(`(Since you last spoke:\n${presence.join("\n")})`);
+  }
+  const results = (speech.actionResults ?? []).map((r) => `- ${r}`);
+  if (results.length > 0) body.push(`(How your last actions went:\n${results.join("\n")})`);
+  return body.join("\n");
+}
+
+// Rooms are addressed as "rambly:<map>:<code>" or just "<map>:<code>"
+export function roomOf(to: string): string {
+  return to.startsWith(`${CHANNEL_ID}:`) ? to.slice(CHANNEL_ID.length + 1) : to;
+}
+
+export class RamblyChannel {
+  constructor(
+    private runtime: ChannelRuntime,
+    private cfg: CoreConfig,
+    private rooms: () => string[],
+    private onOutbound: SpeakInRoom,
+  ) {}
+
+  /**
+   * The channel plugin to register. Its outbound side speaks whatever the
+   * agent sends to a room it's in.
+   */
+  plugin() {
+    return {
+      id: CHANNEL_ID,
+      meta: {
+        id: CHANNEL_ID,
+        label: "Rambly",
+        selectionLabel: "Rambly (spatial voice)",
+        blurb: "Hear and speak in Rambly voice chat rooms.",
+      },
+      capabilities: { chatTypes: ["group"] },
+      config: {
+        listAccountIds: () => ["default"],
+        resolveAccount: () => ({ accountId: "default", enabled: true }),
+      },
+      outbound: {
+        deliveryMode: "direct",
+        sendText: async ({ to, text }: { to: string; text: string }) => {
+          const room = roomOf(to);
+          if (!this.rooms().includes(room)) throw new Error(`Not in Rambly room "${room}"`);
+          await this.onOutbound(room, text);
+          return { channel: CHANNEL_ID, messageId: crypto.randomUUID() };
+        },
+      },
+    };
+  }
+
+  /**
+   * Send what was said to the agent's session; its replies go to `speak`,
+   * one call per reply block.
+   */
+  async dispatch(speech: InboundSpeech, speak: (text: string) => Promise<void>): Promise<void> {
+    const speakers = [...new Map(speech.lines.map((l) => [l.from, l.name])).entries()];
+    // With nobody speaking, the message comes from the room itself
+    const firstId = speakers[0]?.[0] ?? speech.room;
+    const ctx = this.runtime.reply.finalizeInboundContext({
+      Body: formatInboundBody(speech),
+      RawBody: speech.lines.map((l) => l.text).join("\n"),
+      From: `${CHANNEL_ID}:${firstId}`,
+      To: `${CHANNEL_ID}:${speech.room}`,
+      SessionKey: speech.sessionKey || `agent:${speech.agentId}:main`,
+      AccountId: "default",
+      ChatType: "group",
+      GroupSubject: speech.room,
+      SenderId: firstId,
+      SenderName: speakers.map(([, name]) => name).join(", ") || "Rambly",
+      Provider: CHANNEL_ID,
+      Surface: CHANNEL_ID,
+      OriginatingChannel: CHANNEL_ID,
+      OriginatingTo: `${CHANNEL_ID}:${speech.room}`,
+      MessageSid: crypto.randomUUID(),
+      Timestamp: speech.lines[speech.lines.length - 1]?.time ?? Date.now(),
+    });
+
+    let failure: unknown = null;
+    await this.runtime.reply.dispatchReplyWithBufferedBlockDispatcher({
+      ctx,
+      cfg: this.cfg,
+      dispatcherOptions: {
+        deliver: async (payload) => {
+          if (payload.text && !payload.isError) await speak(payload.text);
+        },
+        onError: (err) => {
+          failure = err;
+        },
+      },
+    });
+    if (failure) throw failure instanceof Error ? failure : new Error(String(failure));
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * The plugin's config: one schema (also copied into openclaw.plugin.json),
+ * the defaults taken from it, validation of what the user wrote, and the
+ * per-room overrides applied when a room is joined.
+ */
+
+import { EMOTES } from "./emotes.ts";
+import { levenshtein } from "./fuzzy.ts";
+import { mapNameOf } from "./pathfinding.ts";
+import { DEFAULT_PERSONA, unknownPersonaVariables } from "./persona.ts";
+import type { RamblyPluginConfig, RoomOverrides } from "./types.ts";
+
+// The subset of JSON Schema the config uses
+export interface SchemaNode {
+  type: "number" | "integer" | "string" | "boolean" | "array" | "object";
+  enum?: string[];
+  minimum?: number;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: SchemaNode | false;
+  default?: unknown;
+  description?: string;
+}
+
+type ConfigProperties = {
+  [K in keyof RamblyPluginConfig]: SchemaNode & { default: RamblyPluginConfig[K]; description: string };
+};
+
+export const CONFIG_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    hearingRadius: {
+      type: "number",
+      minimum: 1,
+      default: 150,
+      description: "Distance (in map units) within which the agent can hear peer speech",
+    },
+    followDistance: {
+      type: "number",
+      minimum: 0,
+      default: 40,
+      description: "How close the agent stops when following a peer",
+    },
+    followStepSize: {
+      type: "number",
+      minimum: 1,
+      default: 20,
+      description: "How many units the agent moves per tick on a pathed walk (following matches the target's pace instead)",
+    },
+    daemonCommand: {
+      type: "string",
+      default: "npx tsx /home/dguttman/play/web/rambly/.worktrees/cli-client/cli/bin/rambly-client.ts",
+      description: "Command to spawn the rambly-client daemon",
+    },
+    defaultName: {
+      type: "string",
+      default: "Agent",
+      description: "Default display name when joining a room",
+    },
+    defaultCharacter: {
+      type: "string",
+      default: "king",
+      description: "Sprite character to appear as when joining a room",
+    },
+    voice: {
+      type: "string",
+      default: "nova",
+      description: "OpenAI TTS voice (alloy/echo/fable/onyx/nova/shimmer)",
+    },
+    reconnectMaxRetries: {
+      type: "integer",
+      minimum: 0,
+      default: 5,
+      description: "Consecutive respawn attempts after a daemon crash before giving up",
+    },
+    reconnectBaseDelayMs: {
+      type: "number",
+      minimum: 0,
+      default: 1000,
+      description: "Delay before the first respawn attempt; doubles on each retry",
+    },
+    reconnectMaxDelayMs: {
+      type: "number",
+      minimum: 0,
+      default: 30000,
+      description: "Upper bound for the respawn backoff delay",
+    },
+    responseBackend: {
+      type: "string",
+      enum: ["embedded", "cli", "channel"],
+      default: "embedded",
+      description: "How replies are generated: the embedded agent runtime, the `openclaw agent` CLI, or as a message channel into an agent session",
+    },
+    turnMaxQueue: {
+      type: "integer",
+      minimum: 1,
+      default: 10,
+      description: "Most utterances queued for the next turn while the agent is replying",
+    },
+    turnResponseDelayMs: {
+      type: "number",
+      minimum: 0,
+      default: 800,
+      description: "Quiet period after the last utterance before the agent answers",
+    },
+    turnMergeWindowMs: {
+      type: "number",
+      minimum: 0,
+      default: 2000,
+      description: "Fragments from the same speaker closer together than this are merged into one utterance",
+    },
+    responsePolicy: {
+      type: "string",
+      enum: ["always", "addressed", "sole_peer", "follow_target"],
+      default: "always",
+      description: "When to reply: to everything, only when addressed by name, only when the speaker is the sole peer in range, or only to the follow target",
+    },
+    wakeWords: {
+      type: "array",
+      items: { type: "string" },
+      default: [],
+      description: "Extra names or wake words that count as addressing the agent",
+    },
+    mapsDir: {
+      type: "string",
+      default: "",
+      description: "Directory of <map>.json walkability and <map>.landmarks.json landmark files (empty uses the plugin's maps/ directory)",
+    },
+    landmarksDir: {
+      type: "string",
+      default: "",
+      description: "Directory landmarks saved with save_landmark are written to (empty uses ~/.openclaw/rambly/landmarks)",
+    },
+    historyDir: {
+      type: "string",
+      default: "",
+      description: "Directory for per-room transcript logs (empty uses ~/.openclaw/rambly/history)",
+    },
+    historyMaxEntries: {
+      type: "integer",
+      minimum: 0,
+      default: 10000,
+      description: "Newest transcript log entries kept per room (0 keeps everything)",
+    },
+    historyMaxAgeDays: {
+      type: "number",
+      minimum: 0,
+      default: 30,
+      description: "Drop transcript log entries older than this many days (0 keeps everything)",
+    },
+    presenceDebounceMs: {
+      type: "number",
+      minimum: 0,
+      default: 1500,
+      description: "How long someone must stay in or out of hearing range before it's reported",
+    },
+    reactToPresence: {
+      type: "boolean",
+      default: false,
+      description: "Tell the agent right away when someone joins, leaves, or comes into or out of earshot, and let it answer or stay quiet. Each event costs an agent run; off, it only hears about them with its next reply",
+    },
+    greetOnArrival: {
+      type: "boolean",
+      default: false,
+      description: "Say hello to peers who come into hearing range",
+    },
+    greetCooldownMs: {
+      type: "number",
+      minimum: 0,
+      default: 600000,
+      description: "Minimum time between greetings to the same peer",
+    },
+    greetMessage: {
+      type: "string",
+      default: "Hi {name}!",
+      description: "Greeting to speak; {name} is replaced with the peer's name",
+    },
+    idleWander: {
+      type: "boolean",
+      default: false,
+      description: "Stroll around near the join spot when nobody is in hearing range",
+    },
+    wanderIntervalMs: {
+      type: "number",
+      minimum: 1000,
+      default: 30000,
+      description: "Time between idle strolls",
+    },
+    wanderRadius: {
+      type: "number",
+      minimum: 0,
+      default: 100,
+      description: "How far from the join spot idle strolls may go",
+    },
+    autoLeaveAfterMs: {
+      type: "number",
+      minimum: 0,
+      default: 0,
+      description: "Leave a room after it has been empty this long (0 never leaves)",
+    },
+    conversationIdleMs: {
+      type: "number",
+      minimum: 0,
+      default: 20000,
+      description: "Greetings, wandering and auto-leave pause until this long after the last thing heard or said",
+    },
+    bargeIn: {
+      type: "boolean",
+      default: true,
+      description: "Stop talking when someone in hearing range starts speaking",
+    },
+    rooms: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          hearingRadius: { type: "number", minimum: 1 },
+          voice: { type: "string" },
+          defaultName: { type: "string" },
+          defaultCharacter: { type: "string" },
+          responsePolicy: { type: "string", enum: ["always", "addressed", "sole_peer", "follow_target"] },
+          bargeIn: { type: "boolean" },
+          agentId: { type: "string" },
+          model: { type: "string" },
+          thinkingLevel: { type: "string", enum: ["", "off", "minimal", "low", "medium", "high", "xhigh"] },
+          persona: { type: "string" },
+          channelSessionKey: { type: "string" },
+          maxSpokenLength: { type: "integer", minimum: 0 },
+          followStepSize: { type: "number", minimum: 1 },
+        },
+      },
+      default: {},
+      description: "Per-room settings, keyed by room (forest:standup) or map (forest); a room's entry wins over its map's",
+    },
+    maxSpokenLength: {
+      type: "integer",
+      minimum: 0,
+      default: 600,
+      description: "Longest reply spoken, in characters, after cleanup for TTS (0 for no limit)",
+    },
+    owners: {
+      type: "array",
+      items: { type: "string" },
+      default: [],
+      description: "Peers allowed every voice command, including leave: names, or id:<peerId>. Empty means nobody can give owner-only commands by voice",
+    },
+    trusted: {
+      type: "array",
+      items: { type: "string" },
+      default: [],
+      description: "Peers allowed voice commands raised to the trusted tier through commandPermissions: names, or id:<peerId>",
+    },
+    commandPermissions: {
+      type: "object",
+      additionalProperties: { type: "string", enum: ["everyone", "trusted", "owner"] },
+      default: {},
+      description: "Tier needed per voice command, by intent name (e.g. { \"follow_peer\": \"trusted\" }); leave needs owner and the rest everyone unless set here",
+    },
+    pinnedPeerIds: {
+      type: "object",
+      additionalProperties: { type: "array", items: { type: "string" } },
+      default: {},
+      description: "Pin names to peer ids: an owner or trusted name only counts when spoken from one of its ids",
+    },
+    followMaxStepSize: {
+      type: "number",
+      minimum: 1,
+      default: 60,
+      description: "Largest step per follow tick, used to keep up with a fast target or catch up from far away",
+    },
+    followGraceMs: {
+      type: "number",
+      minimum: 0,
+      default: 15000,
+      description: "How long to wait for a follow target who left the room to come back before giving up",
+    },
+    followLostMessage: {
+      type: "string",
+      default: "I lost track of {name}.",
+      description: "Said when giving up on a follow target; {name} is their name (empty to say nothing)",
+    },
+    faceSpeaker: {
+      type: "boolean",
+      default: true,
+      description: "Turn to face whoever is talking",
+    },
+    personalSpace: {
+      type: "number",
+      minimum: 0,
+      default: 30,
+      description: "Closest the agent stands to anyone when joining a group",
+    },
+    groupLinkDistance: {
+      type: "number",
+      minimum: 1,
+      default: 100,
+      description: "Peers this close to one another (directly or through others) count as one conversation group",
+    },
+    emoteCues: {
+      type: "object",
+      additionalProperties: { type: "string", enum: [...EMOTES] },
+      default: {},
+      description: "Words or phrases in a reply that play an emote as it's spoken, e.g. { \"haha\": \"laugh\", \"*waves*\": \"wave\" }",
+    },
+    contextTokenBudget: {
+      type: "integer",
+      minimum: 0,
+      default: 800,
+      description: "Rough token budget for the room context (recent conversation, who's nearby, the agent's position) sent with each prompt; 0 leaves it out",
+    },
+    replyActions: {
+      type: "boolean",
+      default: true,
+      description: "Let the agent follow, walk, emote or leave through [[...]] directives in its replies, within the speakers' voice-command permissions",
+    },
+    channelSessionKey: {
+      type: "string",
+      default: "",
+      description: "With the channel backend, the session room speech goes to (empty uses the agent's main session)",
+    },
+    agentId: {
+      type: "string",
+      default: "main",
+      description: "OpenClaw agent that replies in rooms: its workspace, identity and sessions",
+    },
+    model: {
+      type: "string",
+      default: "",
+      description: "Model for replies as provider/model (empty uses OpenClaw's default; embedded backend only)",
+    },
+    thinkingLevel: {
+      type: "string",
+      enum: ["", "off", "minimal", "low", "medium", "high", "xhigh"],
+      default: "",
+      description: "Thinking level for replies (empty uses the model's default)",
+    },
+    persona: {
+      type: "string",
+      default: DEFAULT_PERSONA,
+      description: "Who the agent is and how it talks, sent with every reply. Fills in {agent}, {room}, {map}, {speaker}, {peers} (in earshot) and {time}",
+    },
+  } satisfies ConfigProperties,
+} satisfies SchemaNode;
+
+export const DEFAULT_CONFIG: RamblyPluginConfig = Object.fromEntries(
+  Object.entries(CONFIG_SCHEMA.properties).map(([key, node]) => [key, node.default]),
+) as unknown as RamblyPluginConfig;
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid Rambly config:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Check the user's plugin config and fill in defaults. Throws a ConfigError
+ * listing every problem found.
+ */
+export function loadConfig(raw: unknown): RamblyPluginConfig {
+  const input = raw ?? {};
+  const issues: string[] = [];
+  validate(CONFIG_SCHEMA, input, "", issues);
+
+  if (issues.length === 0) {
+    const config = { ...DEFAULT_CONFIG, ...(input as Partial<RamblyPluginConfig>) };
+    if (config.reconnectMaxDelayMs < config.reconnectBaseDelayMs) {
+      issues.push(
+        `reconnectMaxDelayMs: must be at least reconnectBaseDelayMs (${config.reconnectBaseDelayMs}), got ${config.reconnectMaxDelayMs}`,
+      );
+    }
+    if (config.followMaxStepSize < config.followStepSize) {
+      issues.push(
+        `followMaxStepSize: must be at least followStepSize (${config.followStepSize}), got ${config.followMaxStepSize}`,
+      );
+    }
+    for (const [key, overrides] of Object.entries(config.rooms)) {
+      if (!/^[\w-]+(?::[\w-]+)?$/.test(key)) {
+        issues.push(`rooms.${key}: key must be a map (forest) or a room (forest:standup)`);
+      }
+      if (overrides.persona != null) checkPersona(overrides.persona, `rooms.${key}.persona`, issues);
+      if (overrides.model != null) checkModel(overrides.model, `rooms.${key}.model`, issues);
+      if (overrides.followStepSize != null && config.followMaxStepSize < overrides.followStepSize) {
+        issues.push(
+          `rooms.${key}.followStepSize: must be at most followMaxStepSize (${config.followMaxStepSize}), got ${overrides.followStepSize}`,
+        );
+      }
+    }
+    checkPersona(config.persona, "persona", issues);
+    checkModel(config.model, "model", issues);
+    if (issues.length === 0) return config;
+  }
+  throw new ConfigError(issues);
+}
+
+function checkPersona(template: string, path: string, issues: string[]): void {
+  for (const name of unknownPersonaVariables(template)) {
+    issues.push(`${path}: unknown variable {${name}}`);
+  }
+}
+
+// provider/model, e.g. anthropic/claude-sonnet-4-5; the model part may itself hold a slash
+function checkModel(model: string, path: string, issues: string[]): void {
+  if (model && !/^[\w.-]+\/\S+$/.test(model)) {
+    issues.push(`${path}: must be provider/model, got ${describe(model)}`);
+  }
+}
+
+/**
+ * The config for one room: its map's overrides, then its own, on top of the
+ * plugin-wide settings.
+ */
+export function resolveRoomConfig(config: RamblyPluginConfig, room: string): RamblyPluginConfig {
+  const byMap: RoomOverrides = config.rooms[mapNameOf(room)] ?? {};
+  const byRoom: RoomOverrides = config.rooms[room] ?? {};
+  return { ...config, ...byMap, ...byRoom };
+}
+
+function validate(node: SchemaNode, value: unknown, path: string, issues: string[]): void {
+  const at = path || "config";
+  const problem = typeProblem(node, value);
+  if (problem) {
+    issues.push(`${at}: ${problem}, got ${describe(value)}`);
+    return;
+  }
+
+  if (node.enum && !node.enum.includes(value as string)) {
+    issues.push(`${at}: must be one of ${node.enum.map((e) => `"${e}"`).join(", ")}, got ${describe(value)}`);
+  }
+  if (node.minimum != null && (value as number) < node.minimum) {
+    issues.push(`${at}: must be at least ${node.minimum}, got ${value}`);
+  }
+  if (node.type === "array" && node.items) {
+    (value as unknown[]).forEach((item, i) => validate(node.items!, item, `${path}[${i}]`, issues));
+  }
+  if (node.type === "object") {
+    const known = node.properties ?? {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (known[key]) {
+        validate(known[key], child, childPath, issues);
+      } else if (node.additionalProperties) {
+        validate(node.additionalProperties, child, childPath, issues);
+      } else if (node.additionalProperties === false) {
+        issues.push(`${childPath}: unknown option${suggest(key, Object.keys(known))}`);
+      }
+    }
+  }
+}
+
+function typeProblem(node: SchemaNode, value: unknown): string | null {
+  switch (node.type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "must be a number";
+    case "integer":
+      return Number.isInteger(value) ? null : "must be a whole number";
+    case "string":
+    case "boolean":
+      return typeof value === node.type ? null : `must be a ${node.type}`;
+    case "array":
+      return Array.isArray(value) ? null : "must be a list";
+    case "object":
+      return value != null && typeof value === "object" && !Array.isArray(value) ? null : "must be an object";
+  }
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "a list";
+  if (value === null) return "null";
+  return typeof value === "object" ? "an object" : JSON.stringify(value);
+}
+
+// " (did you mean followDistance?)" for a close misspelling
+function suggest(key: string, known: string[]): string {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const d = levenshtein(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best && bestDistance <= Math.max(2, key.length / 4) ? ` (did you mean ${best}?)` : "";
+}
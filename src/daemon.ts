@@ -1,17 +1,41 @@
 import { spawn, type ChildProcess } from "node:child_process";
 import { createInterface } from "node:readline";
 import { EventEmitter } from "node:events";
-import type { DaemonCommand, DaemonEvent } from "./types.ts";
+import type { DaemonCommand, DaemonEvent, DaemonResponse, DaemonResponseEvents } from "./types.ts";
+
+const RESPONSE_EVENTS: DaemonResponseEvents = {
+  speak: "spoke",
+  move: "moved",
+  peers: "peers",
+  status: "status",
+  stop: "stopped",
+  character: "character",
+  emote: "emoted",
+  leave: "left",
+};
+
+// Speech runs as long as the TTS audio; everything else should be quick
+const DEFAULT_REQUEST_TIMEOUT_MS = 5000;
+const SPEAK_REQUEST_TIMEOUT_MS = 60000;
+
+interface PendingRequest {
+  cmd: DaemonCommand;
+  event: string;
+  resolve: (ev: DaemonEvent) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
 
 export class RamblyDaemon extends EventEmitter {
   private proc: ChildProcess | null = null;
   private _ready = false;
+  private pending: PendingRequest[] = [];
 
   get ready() {
     return this._ready;
   }
 
-  spawn(room: string, opts: { name: string; command: string; voice?: string }): Promise<void> {
+  spawn(room: string, opts: { name: string; command: string; voice?: string; character?: string }): Promise<void> {
     if (this.proc) {
       throw new Error("Daemon already running. Leave first.");
     }
@@ -23,22 +47,34 @@ export class RamblyDaemon extends EventEmitter {
       if (opts.voice) {
         args.push("--voice", opts.voice);
       }
+      if (opts.character) {
+        args.push("--character", opts.character);
+      }
 
       this.proc = spawn(bin, args, {
         stdio: ["pipe", "pipe", "pipe"],
         env: { ...process.env },
       });
 
+      // A write racing the daemon's exit fails with EPIPE; the exit handler
+      // below already covers that, so don't let it crash the process. Anything
+      // else is passed on with the daemon's stderr.
+      this.proc.stdin!.on("error", (err: NodeJS.ErrnoException) => {
+        if (err.code !== "EPIPE") this.emit("stderr", `stdin error: ${err.message}`);
+      });
+
       const rl = createInterface({ input: this.proc.stdout! });
 
       rl.on("line", (line) => {
         if (!line.trim()) return;
         try {
           const event: DaemonEvent = JSON.parse(line);
+          this.settlePending(event);
           this.emit("event", event);
 
           if (event.event === "joined") {
             this._ready = true;
+            clearTimeout(joinTimer);
             resolve();
           }
 
@@ -67,13 +103,16 @@ export class RamblyDaemon extends EventEmitter {
       });
 
       this.proc.on("exit", (code) => {
+        // No-op if we already joined
+        reject(new Error(`Daemon exited with code ${code} before joining`));
         this._ready = false;
         this.proc = null;
+        this.rejectAllPending(new Error(`Daemon exited with code ${code}`));
         this.emit("exit", code);
       });
 
       // Timeout if daemon doesn't join within 15s
-      setTimeout(() => {
+      const joinTimer = setTimeout(() => {
         if (!this._ready) {
           reject(new Error("Daemon failed to join room within 15 seconds"));
           this.kill();
@@ -89,6 +128,88 @@ export class RamblyDaemon extends EventEmitter {
     this.proc.stdin.write(JSON.stringify(cmd) + "\n");
   }
 
+  /**
+   * Send a command and wait for the event that answers it (`spoke` for speak,
+   * `moved` for move, and so on). Rejects on a daemon `error` event naming
+   * the command's action, on exit, or when no answer arrives within `timeoutMs`.
+   */
+  request<C extends DaemonCommand>(cmd: C, timeoutMs?: number): Promise<DaemonResponse<C>> {
+    const event = RESPONSE_EVENTS[cmd.action];
+    const ms = timeoutMs ?? (cmd.action === "speak" ? SPEAK_REQUEST_TIMEOUT_MS : DEFAULT_REQUEST_TIMEOUT_MS);
+
+    return new Promise((resolve, reject) => {
+      const entry: PendingRequest = {
+        cmd,
+        event,
+        resolve: resolve as (ev: DaemonEvent) => void,
+        reject,
+        timer: setTimeout(() => {
+          this.removePending(entry);
+          reject(new Error(`Timed out waiting for "${event}" after ${ms}ms`));
+        }, ms),
+      };
+      this.pending.push(entry);
+
+      try {
+        this.send(cmd);
+      } catch (err) {
+        this.removePending(entry);
+        clearTimeout(entry.timer);
+        reject(err);
+      }
+    });
+  }
+
+  private settlePending(ev: DaemonEvent) {
+    if (ev.event === "error") {
+      // Only an error naming its command fails a request. Others may come from
+      // fire-and-forget sends, so the rest wait for their answer or time out.
+      const entry = ev.action && this.pending.find((p) => p.cmd.action === ev.action);
+      if (entry) {
+        this.removePending(entry);
+        clearTimeout(entry.timer);
+        entry.reject(new Error(ev.message));
+      }
+      return;
+    }
+
+    const entry = this.pending.find((p) => p.event === ev.event && this.matches(p.cmd, ev));
+    if (entry) {
+      this.removePending(entry);
+      clearTimeout(entry.timer);
+      entry.resolve(ev);
+    }
+  }
+
+  // Events carry no request id, so match on payload where there is one
+  private matches(cmd: DaemonCommand, ev: DaemonEvent): boolean {
+    if (cmd.action === "move" && ev.event === "moved") {
+      return cmd.x === ev.x && cmd.y === ev.y;
+    }
+    if (cmd.action === "speak" && ev.event === "spoke" && ev.text != null) {
+      return cmd.text === ev.text;
+    }
+    if (cmd.action === "character" && ev.event === "character") {
+      return cmd.character === ev.character;
+    }
+    if (cmd.action === "emote" && ev.event === "emoted") {
+      return cmd.emote === ev.emote;
+    }
+    return true;
+  }
+
+  private removePending(entry: PendingRequest) {
+    const i = this.pending.indexOf(entry);
+    if (i !== -1) this.pending.splice(i, 1);
+  }
+
+  private rejectAllPending(err: Error) {
+    for (const entry of this.pending.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(err);
+    }
+  }
+
   kill(): void {
     if (this.proc) {
       try {
@@ -0,0 +1,50 @@
+/**
+ * Emotes the agent's sprite can play, and picking one from cues in a reply
+ * ("haha" -> laugh, "*waves*" -> wave) per the `emoteCues` config.
+ */
+
+import type { Emote } from "./types.ts";
+
+export const EMOTES: readonly Emote[] = ["wave", "nod", "laugh", "shrug", "clap"];
+
+export function isEmote(value: string): value is Emote {
+  return (EMOTES as readonly string[]).includes(value);
+}
+
+export interface EmoteCue {
+  emote: Emote;
+  // The reply with the stage direction that held the cue ("*waves*") removed
+  text: string;
+}
+
+/**
+ * The emote for the earliest cue in `text`, if any. Cues match whole words,
+ * case-insensitively. A cue inside a *stage direction* takes the direction
+ * out of the text, so it's acted rather than read aloud.
+ */
+export function matchEmoteCue(text: string, cues: Record<string, Emote>): EmoteCue | null {
+  let best: { index: number; cue: string; emote: Emote } | null = null;
+  for (const [cue, emote] of Object.entries(cues)) {
+    const match = cuePattern(cue).exec(text);
+    if (match && (!best || match.index < best.index)) best = { index: match.index, cue, emote };
+  }
+  if (!best) return null;
+
+  const direction = /\*[^*\n]+\*/g;
+  let stripped = text;
+  for (const m of text.matchAll(direction)) {
+    const start = m.index!;
+    if (best.index >= start && best.index < start + m[0].length) {
+      stripped = (text.slice(0, start) + text.slice(start + m[0].length)).replace(/\s{2,}/g, " ").trim();
+      break;
+    }
+  }
+  return { emote: best.emote, text: stripped };
+}
+
+function cuePattern(cue: string): RegExp {
+  const escaped = cue.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const before = /^\w/.test(cue.trim()) ? "\\b" : "";
+  const after = /\w$/.test(cue.trim()) ? "\\b" : "";
+  return new RegExp(`${before}${escaped}${after}`, "i");
+}
@@ -0,0 +1,63 @@
+/**
+ * Pacing for follow mode: how fast the target is moving, and how big a step
+ * to take each tick to keep up with them or close a gap.
+ */
+
+import type { Point } from "./pathfinding.ts";
+
+// A target that hasn't moved for this long is standing still
+const STALE_MS = 1000;
+
+// A gap is closed over roughly this many ticks, on top of matching speed
+const CATCH_UP_TICKS = 10;
+
+// Smallest step worth sending, so a slow target is still crept after
+export const MIN_FOLLOW_STEP = 2;
+
+/**
+ * Smoothed speed of the follow target, in units per ms, from the positions
+ * it's reported at.
+ */
+export class TargetSpeed {
+  private last: { point: Point; time: number } | null = null;
+  private smoothed = 0;
+
+  sample(point: Point, now = Date.now()): void {
+    if (this.last && now > this.last.time) {
+      const dt = now - this.last.time;
+      const moved = Math.hypot(point.x - this.last.point.x, point.y - this.last.point.y);
+      // A long silence means they stood still in between, not that they crawled
+      const speed = dt > STALE_MS ? 0 : moved / dt;
+      this.smoothed = this.smoothed * 0.5 + speed * 0.5;
+    }
+    this.last = { point: { ...point }, time: now };
+  }
+
+  speed(now = Date.now()): number {
+    if (!this.last || now - this.last.time > STALE_MS) return 0;
+    return this.smoothed;
+  }
+
+  reset(): void {
+    this.last = null;
+    this.smoothed = 0;
+  }
+}
+
+export interface StepOptions {
+  // Target speed, units per ms
+  speed: number;
+  // How far the agent is beyond where it wants to be
+  gap: number;
+  intervalMs: number;
+  maxStep: number;
+}
+
+/**
+ * Step size for one follow tick: the target's pace, plus a share of the gap,
+ * at least MIN_FOLLOW_STEP and at most `maxStep`.
+ */
+export function followStep({ speed, gap, intervalMs, maxStep }: StepOptions): number {
+  const wanted = speed * intervalMs + Math.max(0, gap) / CATCH_UP_TICKS;
+  return Math.min(maxStep, Math.max(MIN_FOLLOW_STEP, Math.round(wanted)));
+}
@@ -0,0 +1,78 @@
+import type { PeerInfo } from "./types.ts";
+
+// Below this similarity a spoken name isn't considered a match
+const MIN_PEER_SCORE = 0.55;
+
+// Rough phonetic folding for common transcription slips
+export function phonetic(word: string): string {
+  return word
+    .replace(/'/g, "")
+    .replace(/ph/g, "f")
+    .replace(/ck|c(?=[aou])|q/g, "k")
+    .replace(/oo|ou/g, "u")
+    .replace(/ee|ea|ie|y$/g, "i")
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity between a spoken name and a peer name, from 0 to 1. Compares
+ * phonetically folded forms with spaces removed, so "mary ann" scores high
+ * against "Marianne", and gives a prefix bonus for nicknames ("Dave" -> "David").
+ */
+export function nameSimilarity(spoken: string, name: string): number {
+  const a = phonetic(spoken.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const b = phonetic(name.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  let score = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  if (a.length >= 3 && b.startsWith(a.slice(0, 3))) {
+    score += 0.15;
+  }
+  return Math.min(score, 0.99);
+}
+
+/**
+ * Find the peer a spoken name most likely refers to. Exact and first-name
+ * matches win outright; otherwise the closest name above a similarity floor.
+ */
+export function matchPeer(spoken: string, peers: Iterable<PeerInfo>): PeerInfo | undefined {
+  const target = spoken.trim().toLowerCase();
+  if (!target) return undefined;
+
+  let best: PeerInfo | undefined;
+  let bestScore = MIN_PEER_SCORE;
+  for (const peer of peers) {
+    const name = peer.name.toLowerCase();
+    if (name === target) return peer;
+
+    const first = name.split(/\s+/)[0];
+    const score = Math.max(
+      nameSimilarity(target, name),
+      first === target ? 0.98 : nameSimilarity(target, first),
+    );
+    if (score > bestScore) {
+      best = peer;
+      bestScore = score;
+    }
+  }
+  return best;
+}
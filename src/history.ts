@@ -0,0 +1,152 @@
+/**
+ * Append-only transcript log, one JSON-lines file per room at
+ * `<historyDir>/<map>/<code>.jsonl`. Holds everything the agent heard and
+ * said, and survives leaving the room.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { HistoryEntry } from "./types.ts";
+
+export const DEFAULT_HISTORY_DIR = path.join(os.homedir(), ".openclaw", "rambly", "history");
+
+// Appends between retention passes on the same room
+const PRUNE_EVERY = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionOptions {
+  // Newest entries kept per room; 0 keeps everything
+  maxEntries: number;
+  // Entries older than this are dropped; 0 keeps everything
+  maxAgeDays: number;
+}
+
+export interface HistoryQuery {
+  room?: string;
+  // Speaker id, or name (case-insensitive)
+  speaker?: string;
+  since?: number;
+  until?: number;
+  // Every word must appear in the text (case-insensitive)
+  text?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+}
+
+/**
+ * Parse a time bound: epoch ms, an ISO date, or a relative "30m" / "2h" /
+ * "7d" meaning that long ago. Returns null if it can't be read.
+ */
+export function parseTime(value: string | number, now = Date.now()): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: DAY_MS }[relative[2] as "s" | "m" | "h" | "d"];
+    return now - Number(relative[1]) * unit;
+  }
+  if (/^\d+$/.test(value.trim())) return Number(value);
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export class TranscriptLog {
+  private appendsSincePrune = new Map<string, number>();
+
+  constructor(
+    private dir: string,
+    private retention: RetentionOptions,
+  ) {}
+
+  private file(room: string): string {
+    const [map, code] = room.split(":");
+    return path.join(this.dir, map, `${code}.jsonl`);
+  }
+
+  append(entry: HistoryEntry): void {
+    const file = this.file(entry.room);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, JSON.stringify(entry) + "\n");
+
+    const count = (this.appendsSincePrune.get(entry.room) ?? 0) + 1;
+    this.appendsSincePrune.set(entry.room, count);
+    if (count >= PRUNE_EVERY) this.prune(entry.room);
+  }
+
+  /**
+   * Apply the retention limits to a room's log, rewriting it in place.
+   */
+  prune(room: string, now = Date.now()): void {
+    this.appendsSincePrune.set(room, 0);
+    const { maxEntries, maxAgeDays } = this.retention;
+    if (maxEntries <= 0 && maxAgeDays <= 0) return;
+
+    const file = this.file(room);
+    const entries = this.read(file);
+    let kept = maxAgeDays > 0 ? entries.filter((e) => e.time >= now - maxAgeDays * DAY_MS) : entries;
+    if (maxEntries > 0 && kept.length > maxEntries) kept = kept.slice(-maxEntries);
+    if (kept.length === entries.length) return;
+
+    // Write then rename so a crash mid-prune can't lose the log
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, kept.map((e) => JSON.stringify(e) + "\n").join(""));
+    fs.renameSync(tmp, file);
+  }
+
+  /**
+   * Matching entries, newest first, paged by `offset` and `limit`.
+   */
+  query(q: HistoryQuery): HistoryPage {
+    const files = q.room ? [this.file(q.room)] : this.allFiles();
+    const speaker = q.speaker?.toLowerCase();
+    const words = q.text?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+    const matches = files
+      .flatMap((file) => this.read(file))
+      .filter((e) => {
+        if (speaker && e.speakerId !== q.speaker && e.speakerName.toLowerCase() !== speaker) return false;
+        if (q.since != null && e.time < q.since) return false;
+        if (q.until != null && e.time > q.until) return false;
+        const text = e.text.toLowerCase();
+        return words.every((w) => text.includes(w));
+      })
+      .sort((a, b) => b.time - a.time);
+
+    const offset = q.offset ?? 0;
+    const limit = q.limit ?? 20;
+    return { entries: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  private allFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir, { withFileTypes: true })
+      .filter((d) => d.isDirectory())
+      .flatMap((d) =>
+        fs
+          .readdirSync(path.join(this.dir, d.name))
+          .filter((f) => f.endsWith(".jsonl"))
+          .map((f) => path.join(this.dir, d.name, f)),
+      );
+  }
+
+  private read(file: string): HistoryEntry[] {
+    if (!fs.existsSync(file)) return [];
+    const entries: HistoryEntry[] = [];
+    for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a line torn by a crash mid-append
+      }
+    }
+    return entries;
+  }
+}
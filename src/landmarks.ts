@@ -0,0 +1,166 @@
+/**
+ * Named points and areas per map.
+ *
+ * Landmarks live next to the walkability maps as `<map>.landmarks.json`:
+ *
+ *   {
+ *     "landmarks": [
+ *       { "name": "fountain", "x": 420, "y": 310 },
+ *       { "name": "lake", "x": 700, "y": 500, "radius": 80, "aliases": ["pond"] }
+ *     ]
+ *   }
+ *
+ * A landmark with a `radius` is an area; anywhere inside it counts as being
+ * there. Landmarks saved at runtime go to a file of the same name in a user
+ * data directory, so they survive upgrades, and win over bundled ones with
+ * the same name.
+ */
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { nameSimilarity } from "./fuzzy.ts";
+import type { Point } from "./pathfinding.ts";
+import type { Landmark } from "./types.ts";
+
+export const DEFAULT_LANDMARKS_DIR = path.join(os.homedir(), ".openclaw", "rambly", "landmarks");
+
+// Below this similarity a spoken name isn't considered a landmark
+const MIN_LANDMARK_SCORE = 0.7;
+
+export interface NearestLandmark {
+  landmark: Landmark;
+  distance: number;
+  inside: boolean;
+}
+
+// "The Old Fountain" and "old fountain" name the same place
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/^\s*the\s+/, "").replace(/\s+/g, " ").trim();
+}
+
+function validateLandmark(map: string, raw: any): Landmark {
+  if (!raw || typeof raw.name !== "string" || !raw.name.trim() || !Number.isFinite(raw.x) || !Number.isFinite(raw.y)) {
+    throw new Error(`Landmark in "${map}" needs a name, x and y`);
+  }
+  const landmark: Landmark = { name: raw.name.trim(), x: raw.x, y: raw.y };
+  if (raw.radius != null) {
+    if (!isValidRadius(raw.radius)) throw new Error(`Landmark "${landmark.name}" in "${map}" has an invalid radius`);
+    landmark.radius = raw.radius;
+  }
+  if (Array.isArray(raw.aliases)) landmark.aliases = raw.aliases.map(String);
+  return landmark;
+}
+
+// A radius must be a real, non-negative distance
+export function isValidRadius(radius: unknown): radius is number {
+  return typeof radius === "number" && Number.isFinite(radius) && radius >= 0;
+}
+
+function readFile(map: string, file: string): Landmark[] {
+  if (!fs.existsSync(file)) return [];
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw?.landmarks)) {
+    throw new Error(`${path.basename(file)} needs a "landmarks" array`);
+  }
+  return raw.landmarks.map((l: unknown) => validateLandmark(map, l));
+}
+
+export class LandmarkStore {
+  private cache = new Map<string, Landmark[]>();
+  private savedCache = new Map<string, Landmark[]>();
+
+  /**
+   * `dir` holds the bundled landmark files, `savedDir` the ones saved at
+   * runtime.
+   */
+  constructor(
+    private dir: string,
+    private savedDir: string,
+  ) {}
+
+  private file(dir: string, map: string): string {
+    return path.join(dir, `${map}.landmarks.json`);
+  }
+
+  private saved(map: string): Landmark[] {
+    let saved = this.savedCache.get(map);
+    if (!saved) {
+      saved = readFile(map, this.file(this.savedDir, map));
+      this.savedCache.set(map, saved);
+    }
+    return saved;
+  }
+
+  /**
+   * Landmarks for a map, bundled and saved ([] when it has neither). Throws
+   * if a file exists but is malformed.
+   */
+  load(map: string): Landmark[] {
+    const cached = this.cache.get(map);
+    if (cached) return cached;
+
+    const saved = this.saved(map);
+    const savedNames = new Set(saved.map((l) => normalizeName(l.name)));
+    const bundled = readFile(map, this.file(this.dir, map)).filter((l) => !savedNames.has(normalizeName(l.name)));
+    const landmarks = [...bundled, ...saved];
+    this.cache.set(map, landmarks);
+    return landmarks;
+  }
+
+  /**
+   * The landmark a spoken name most likely refers to: exact name or alias
+   * first, then the closest fuzzy match.
+   */
+  find(map: string, spoken: string): Landmark | undefined {
+    const target = normalizeName(spoken);
+    if (!target) return undefined;
+
+    let best: Landmark | undefined;
+    let bestScore = MIN_LANDMARK_SCORE;
+    for (const landmark of this.load(map)) {
+      const names = [landmark.name, ...(landmark.aliases ?? [])].map(normalizeName);
+      if (names.includes(target)) return landmark;
+      for (const name of names) {
+        const score = nameSimilarity(target, name);
+        if (score > bestScore) {
+          best = landmark;
+          bestScore = score;
+        }
+      }
+    }
+    return best;
+  }
+
+  nearest(map: string, point: Point): NearestLandmark | null {
+    let nearest: NearestLandmark | null = null;
+    for (const landmark of this.load(map)) {
+      const center = Math.hypot(point.x - landmark.x, point.y - landmark.y);
+      // Distance to the edge for areas
+      const distance = Math.max(0, center - (landmark.radius ?? 0));
+      if (!nearest || distance < nearest.distance) {
+        nearest = { landmark, distance, inside: landmark.radius != null && center <= landmark.radius };
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Add a landmark, replacing any with the same name, and write the map's
+   * saved file. Returns true if an existing landmark was replaced.
+   */
+  save(map: string, landmark: Landmark): boolean {
+    if (landmark.radius != null && !isValidRadius(landmark.radius)) {
+      throw new Error(`Invalid radius ${landmark.radius}`);
+    }
+    const replaced = this.load(map).some((l) => normalizeName(l.name) === normalizeName(landmark.name));
+    const landmarks = this.saved(map).filter((l) => normalizeName(l.name) !== normalizeName(landmark.name));
+    landmarks.push(landmark);
+
+    fs.mkdirSync(this.savedDir, { recursive: true });
+    fs.writeFileSync(this.file(this.savedDir, map), JSON.stringify({ landmarks }, null, 2) + "\n");
+    this.savedCache.set(map, landmarks);
+    this.cache.delete(map);
+    return replaced;
+  }
+}
@@ -1,148 +1,432 @@
 import { RamblyDaemon } from "./daemon.ts";
+import { DaemonSupervisor } from "./supervisor.ts";
+import { fail } from "./results.ts";
+import { loadWalkMap, mapNameOf, clampToWalkable, findPath, hasLineOfSight, isWalkable, DEFAULT_MAPS_DIR } from "./pathfinding.ts";
+import type { Point, WalkMap } from "./pathfinding.ts";
+import { LandmarkStore, isValidRadius, DEFAULT_LANDMARKS_DIR } from "./landmarks.ts";
+import { TranscriptLog, parseTime, DEFAULT_HISTORY_DIR } from "./history.ts";
+import { PresenceTracker } from "./presence.ts";
+import { SpeechQueue, type SpeechOutcome } from "./speech.ts";
+import { normalizeForSpeech } from "./speech-text.ts";
+import { EMOTES, isEmote } from "./emotes.ts";
+import { centroid, facing, findGroups, findGroupSpot, type PlacedPeer } from "./positioning.ts";
+import { TargetSpeed, followStep } from "./follow.ts";
+import { buildRoomContext } from "./room-context.ts";
 import type {
   RamblyState,
   RamblyPluginConfig,
+  RamblyLogger,
+  RamblyError,
   PeerInfo,
+  PeerStatus,
   DaemonEvent,
+  JoinResult,
+  LeaveResult,
+  SpeakResult,
+  StopSpeakingResult,
+  CharacterResult,
+  EmoteResult,
+  JoinGroupResult,
+  MoveResult,
+  GotoResult,
+  LandmarksResult,
+  SaveLandmarkResult,
+  Landmark,
+  HistoryEntry,
+  HistoryResult,
+  PresenceEvent,
+  BehaviorStatus,
+  FollowResult,
+  UnfollowResult,
+  StatusResult,
+  RoomStatus,
+  ConnectionStatus,
 } from "./types.ts";
-import { DEFAULT_CONFIG } from "./types.ts";
+import { DEFAULT_CONFIG, resolveRoomConfig } from "./config.ts";
+
+// <map>:<code>, e.g. forest:haku-test
+const ROOM_PATTERN = /^[\w-]+:[\w-]+$/;
+
+// Sprite names go to the daemon as a CLI flag, so keep them to one word
+const CHARACTER_PATTERN = /^[\w-]+$/;
+
+// Most history entries returned in one page
+const MAX_HISTORY_LIMIT = 100;
+
+// Oldest line of conversation included in the room context
+const CONTEXT_MAX_AGE_MS = 30 * 60 * 1000;
+
+// How often hearing range is re-checked for presence events
+const PRESENCE_TICK_MS = 250;
+
+// Interval between walking steps, for both follow and pathed moves
+const STEP_INTERVAL_MS = 100;
+
+export type TranscriptHandler = (room: string, from: string, name: string, text: string, distance: number) => void;
+
+export type PresenceHandler = (event: PresenceEvent) => void;
+
+// One daemon + state per joined room
+interface RoomSession {
+  room: string;
+  supervisor: DaemonSupervisor;
+  daemon: RamblyDaemon;
+  state: RamblyState;
+  followInterval: ReturnType<typeof setInterval> | null;
+  followSpeed: TargetSpeed;
+  // Walkability for the room's map; null when the map has no file
+  walkMap: WalkMap | null;
+  // In-progress pathed move; `cancelled` is set to the reason when cut short
+  walk: { cancelled: string | null } | null;
+  presence: PresenceTracker;
+  presenceInterval: ReturnType<typeof setInterval> | null;
+  recentPresence: PresenceEvent[];
+  speech: SpeechQueue;
+  // Plugin config with the room's overrides applied
+  config: RamblyPluginConfig;
+}
 
 export class RamblyManager {
-  private daemon: RamblyDaemon;
   private config: RamblyPluginConfig;
-  private state: RamblyState;
-  private followInterval: ReturnType<typeof setInterval> | null = null;
-  private onTranscript: ((from: string, name: string, text: string, distance: number) => void) | null = null;
+  private rooms = new Map<string, RoomSession>();
+  private onTranscript: TranscriptHandler | null = null;
+  private onPresence: PresenceHandler | null = null;
+  private behaviorStatus: ((room: string) => BehaviorStatus | null) | null = null;
+  private logger: RamblyLogger | undefined;
+  private landmarks: LandmarkStore;
+  private transcriptLog: TranscriptLog;
 
-  constructor(config: Partial<RamblyPluginConfig> = {}) {
+  constructor(config: Partial<RamblyPluginConfig> = {}, logger?: RamblyLogger) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.daemon = new RamblyDaemon();
-    this.state = {
-      connected: false,
-      room: null,
-      peerId: null,
-      agentName: null,
-      position: { x: 250, y: 230 },
-      peers: new Map(),
-      followTarget: null,
-      followBreadcrumbs: [],
-      pendingTranscripts: [],
+    this.logger = logger;
+    this.landmarks = new LandmarkStore(
+      this.config.mapsDir || DEFAULT_MAPS_DIR,
+      this.config.landmarksDir || DEFAULT_LANDMARKS_DIR,
+    );
+    this.transcriptLog = new TranscriptLog(this.config.historyDir || DEFAULT_HISTORY_DIR, {
+      maxEntries: this.config.historyMaxEntries,
+      maxAgeDays: this.config.historyMaxAgeDays,
+    });
+  }
+
+  setTranscriptHandler(handler: TranscriptHandler) {
+    this.onTranscript = handler;
+  }
+
+  setPresenceHandler(handler: PresenceHandler) {
+    this.onPresence = handler;
+  }
+
+  /**
+   * Where `status` gets each room's behavior state from.
+   */
+  setBehaviorStatus(provider: (room: string) => BehaviorStatus | null) {
+    this.behaviorStatus = provider;
+  }
+
+  private createSession(
+    room: string,
+    agentName: string,
+    character: string,
+    walkMap: WalkMap | null,
+    config: RamblyPluginConfig,
+  ): RoomSession {
+    const supervisor = new DaemonSupervisor(
+      room,
+      { name: agentName, command: config.daemonCommand, voice: config.voice, character },
+      {
+        maxRetries: this.config.reconnectMaxRetries,
+        baseDelayMs: this.config.reconnectBaseDelayMs,
+        maxDelayMs: this.config.reconnectMaxDelayMs,
+      },
+    );
+    const session: RoomSession = {
+      room,
+      supervisor,
+      daemon: supervisor.daemon,
+      state: {
+        connected: false,
+        room: null,
+        peerId: null,
+        agentName,
+        character,
+        position: { x: 250, y: 230 },
+        peers: new Map(),
+        followTarget: null,
+        followTargetId: null,
+        followLostAt: null,
+        followArrived: false,
+        followBreadcrumbs: [],
+        pendingTranscripts: [],
+      },
+      followInterval: null,
+      followSpeed: new TargetSpeed(),
+      walkMap,
+      walk: null,
+      presence: new PresenceTracker(this.config.presenceDebounceMs, (ev) => this.handlePresence(session, { room, ...ev })),
+      presenceInterval: null,
+      recentPresence: [],
+      speech: new SpeechQueue(
+        async (text) => {
+          const ev = await session.daemon.request({ action: "speak", text });
+          return { interrupted: !!ev.interrupted };
+        },
+        () => session.daemon.request({ action: "stop" }),
+      ),
+      config,
     };
 
-    this.daemon.on("event", (ev: DaemonEvent) => this.handleEvent(ev));
+    session.daemon.on("event", (ev: DaemonEvent) => this.handleEvent(session, ev));
+    this.superviseSession(session);
+    return session;
   }
 
-  setTranscriptHandler(handler: (from: string, name: string, text: string, distance: number) => void) {
-    this.onTranscript = handler;
+  private superviseSession(session: RoomSession) {
+    const { supervisor, state } = session;
+
+    supervisor.on("reconnecting", ({ attempt, delayMs, code }) => {
+      state.connected = false;
+      this.stopFollowLoop(session);
+      this.stopWalk(session, "Connection lost while walking.");
+      this.logger?.warn?.(
+        `[Rambly ${session.room}] Daemon exited (code ${code}); reconnect attempt ${attempt}/${this.config.reconnectMaxRetries} in ${delayMs}ms`,
+      );
+    });
+
+    supervisor.on("reconnected", ({ attempts }) => {
+      this.logger?.info(`[Rambly ${session.room}] Reconnected after ${attempts} attempt(s)`);
+      this.restoreSession(session);
+    });
+
+    supervisor.on("gave_up", ({ attempts, error }) => {
+      state.connected = false;
+      this.stopFollow(session);
+      this.logger?.error(`[Rambly ${session.room}] Giving up after ${attempts} reconnect attempts: ${error}`);
+    });
+  }
+
+  /**
+   * Bring a respawned daemon back to where we were: same spot and sprite,
+   * fresh peer list, and the follow loop running again if we had a target.
+   */
+  private restoreSession(session: RoomSession) {
+    const { state } = session;
+    try {
+      session.daemon.send({ action: "move", x: state.position.x, y: state.position.y });
+      session.daemon.send({ action: "character", character: state.character });
+      session.daemon.send({ action: "peers" });
+    } catch (err: any) {
+      this.logger?.error(`[Rambly ${session.room}] Failed to restore state: ${err.message}`);
+      return;
+    }
+    if (state.followTarget) {
+      state.followBreadcrumbs = [];
+      this.startFollowLoop(session);
+    }
   }
 
-  private handleEvent(ev: DaemonEvent) {
+  /**
+   * Resolve the session an action targets. With no room given, the only
+   * joined room is used; with several joined rooms the caller must pick one.
+   */
+  private resolveSession(room?: string): RoomSession | RamblyError {
+    if (room) {
+      return this.rooms.get(room) ?? fail("not_connected", `Not connected to room "${room}".`, { room });
+    }
+    if (this.rooms.size === 0) {
+      return fail("not_connected", "Not connected. Join a room first.");
+    }
+    if (this.rooms.size > 1) {
+      return fail("room_required", `Connected to multiple rooms (${[...this.rooms.keys()].join(", ")}). Specify a room.`);
+    }
+    return this.rooms.values().next().value!;
+  }
+
+  /**
+   * Like resolveSession, but also requires the daemon to be up.
+   */
+  private connectedSession(room?: string): RoomSession | RamblyError {
+    const session = this.resolveSession(room);
+    if ("error" in session) return session;
+    if (!session.state.connected) {
+      return session.supervisor.status === "failed"
+        ? fail("connection_lost", `Lost connection to room "${session.room}". Leave and join again.`, { room: session.room })
+        : fail("reconnecting", `Reconnecting to room "${session.room}". Try again shortly.`, { room: session.room });
+    }
+    return session;
+  }
+
+  private handleEvent(session: RoomSession, ev: DaemonEvent) {
+    const state = session.state;
+
     switch (ev.event) {
       case "joined":
-        this.state.connected = true;
-        this.state.room = ev.room;
-        this.state.peerId = ev.peerId;
+        state.connected = true;
+        state.room = ev.room;
+        state.peerId = ev.peerId;
         break;
 
       case "peer_join":
-        this.state.peers.set(ev.id, { id: ev.id, name: ev.name, position: ev.position });
+        state.peers.set(ev.id, { id: ev.id, name: ev.name, position: ev.position });
+        session.presence.joined({ id: ev.id, name: ev.name, position: ev.position });
         break;
 
       case "peer_moved": {
-        const peer = this.state.peers.get(ev.id);
+        const peer = state.peers.get(ev.id);
         if (peer && ev.position) {
           peer.position = ev.position;
         }
-        // Record breadcrumb if we're following this peer
-        if (this.state.followTarget && ev.position) {
-          const target = this.findPeerByName(this.state.followTarget);
-          if (target && target.id === ev.id) {
-            const crumbs = this.state.followBreadcrumbs;
-            const lastCrumb = crumbs[crumbs.length - 1];
-            if (!lastCrumb || this.distance(lastCrumb, ev.position) > 5) {
-              crumbs.push({ ...ev.position });
-              if (crumbs.length > 100) crumbs.shift();
-            }
+        session.presence.seen(ev.id);
+        // Record breadcrumb and pace if we're following this peer
+        if (state.followTarget && ev.position && this.findFollowTarget(session)?.id === ev.id) {
+          session.followSpeed.sample(ev.position);
+          const crumbs = state.followBreadcrumbs;
+          const lastCrumb = crumbs[crumbs.length - 1];
+          if (!lastCrumb || this.distance(lastCrumb, ev.position) > 5) {
+            crumbs.push({ ...ev.position });
+            if (crumbs.length > 100) crumbs.shift();
           }
         }
         break;
       }
 
       case "peer_leave":
-        this.state.peers.delete(ev.id);
-        if (this.state.followTarget) {
-          const target = this.findPeerByName(this.state.followTarget);
-          if (!target) {
-            this.stopFollow();
-          }
+        state.peers.delete(ev.id);
+        session.presence.left(ev.id);
+        // The follow loop waits for them to come back, then gives up
+        if (state.followTarget && !this.findFollowTarget(session)) {
+          this.loseFollowTarget(session);
         }
         break;
 
       case "peers":
-        this.state.peers.clear();
+        state.peers.clear();
         for (const p of ev.peers) {
-          this.state.peers.set(p.id, p);
+          state.peers.set(p.id, p);
         }
+        this.syncPresence(session);
         break;
 
       case "status":
-        this.state.room = ev.room;
-        this.state.position = ev.position;
-        this.state.peers.clear();
+        state.room = ev.room;
+        state.position = ev.position;
+        state.peers.clear();
         for (const p of ev.peers) {
-          this.state.peers.set(p.id, p);
+          state.peers.set(p.id, p);
         }
+        this.syncPresence(session);
         break;
 
       case "moved":
-        this.state.position = { x: ev.x, y: ev.y };
+        state.position = { x: ev.x, y: ev.y };
+        break;
+
+      case "character":
+        state.character = ev.character;
         break;
 
       case "transcript":
-        this.handleTranscript(ev);
+        this.handleTranscript(session, ev);
         break;
 
       case "left":
-        this.cleanup();
+        this.cleanup(session);
         break;
     }
   }
 
-  private handleTranscript(ev: DaemonEvent & { event: "transcript" }) {
+  private handleTranscript(session: RoomSession, ev: DaemonEvent & { event: "transcript" }) {
+    const state = session.state;
+    session.presence.seen(ev.from);
+
     // Ignore own transcripts (prevents feedback loop)
-    if (this.state.agentName && ev.name.toLowerCase() === this.state.agentName.toLowerCase()) {
+    if (state.agentName && ev.name.toLowerCase() === state.agentName.toLowerCase()) {
       return;
     }
 
     let dist = 0;
     if (ev.position) {
-      dist = this.distance(this.state.position, ev.position);
-      if (dist > this.config.hearingRadius) {
+      dist = this.distance(state.position, ev.position);
+      if (dist > session.config.hearingRadius) {
         // Too far away, ignore
         return;
       }
     }
-    
+
+    if (session.config.faceSpeaker && ev.position) {
+      this.face(session, ev.position);
+    }
+
+    // Someone nearby started talking over us
+    if (session.config.bargeIn && session.speech.active && session.speech.interrupt()) {
+      this.logger?.info(`[Rambly ${session.room}] ${ev.name} started speaking; stopped talking`);
+    }
+
     // Store transcript for later retrieval
-    this.state.pendingTranscripts.push({
+    state.pendingTranscripts.push({
       name: ev.name,
       text: ev.text,
       time: Date.now(),
     });
     // Keep only last 10 transcripts
-    if (this.state.pendingTranscripts.length > 10) {
-      this.state.pendingTranscripts.shift();
+    if (state.pendingTranscripts.length > 10) {
+      state.pendingTranscripts.shift();
+    }
+
+    this.record(session, {
+      kind: "heard",
+      speakerId: ev.from,
+      speakerName: ev.name,
+      text: ev.text,
+      x: ev.position?.x ?? null,
+      y: ev.position?.y ?? null,
+      distance: ev.position ? Math.round(dist) : null,
+    });
+
+    this.onTranscript?.(session.room, ev.from, ev.name, ev.text, Math.round(dist));
+  }
+
+  private syncPresence(session: RoomSession) {
+    const { state } = session;
+    session.presence.sync(
+      state.peers.values(),
+      (p) => !!p.position && this.distance(state.position, p.position) <= session.config.hearingRadius,
+    );
+  }
+
+  private startPresenceLoop(session: RoomSession) {
+    session.presenceInterval = setInterval(() => {
+      const { state } = session;
+      if (!state.connected) return;
+      const distances = new Map<string, number | null>();
+      for (const p of state.peers.values()) {
+        distances.set(p.id, p.position ? this.distance(state.position, p.position) : null);
+      }
+      session.presence.update(distances, session.config.hearingRadius);
+    }, PRESENCE_TICK_MS);
+  }
+
+  private handlePresence(session: RoomSession, event: PresenceEvent) {
+    session.recentPresence.push(event);
+    if (session.recentPresence.length > 10) session.recentPresence.shift();
+    this.onPresence?.(event);
+  }
+
+  // Logging must never break listening or speaking
+  private record(session: RoomSession, entry: Omit<HistoryEntry, "time" | "room">) {
+    try {
+      this.transcriptLog.append({ time: Date.now(), room: session.room, ...entry });
+    } catch (err: any) {
+      this.logger?.warn?.(`[Rambly ${session.room}] Failed to write transcript log: ${err.message}`);
     }
-    
-    this.onTranscript?.(ev.from, ev.name, ev.text, Math.round(dist));
   }
 
   private distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
     return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
   }
 
-  private findPeerByName(name: string): PeerInfo | undefined {
-    for (const peer of this.state.peers.values()) {
+  private findPeerByName(session: RoomSession, name: string): PeerInfo | undefined {
+    for (const peer of session.state.peers.values()) {
       if (peer.name.toLowerCase() === name.toLowerCase()) return peer;
     }
     return undefined;
@@ -150,153 +434,699 @@ export class RamblyManager {
 
   // --- Public API ---
 
-  async join(room: string, name?: string): Promise<string> {
+  async join(room: string, name?: string, character?: string): Promise<JoinResult> {
+    if (!ROOM_PATTERN.test(room)) {
+      return fail("invalid_room", `Invalid room "${room}". Use <map>:<code>, e.g. forest:haku-test.`, { room });
+    }
+    if (character != null && !CHARACTER_PATTERN.test(character)) {
+      return fail("invalid_params", `Invalid character "${character}". Use a sprite name like "king".`, { room });
+    }
+
     // Idempotent: if already in this room, just return success
-    if (this.state.connected && this.state.room === room) {
-      return `Already in room "${room}".`;
+    const existing = this.rooms.get(room);
+    if (existing && existing.supervisor.status !== "failed") {
+      const { agentName, character: current, position } = existing.state;
+      return { ok: true, room, name: agentName ?? "", character: current, x: position.x, y: position.y, alreadyJoined: true };
     }
-    if (this.state.connected) {
-      return `Already connected to ${this.state.room}. Leave first.`;
+    if (existing) {
+      // Previous session gave up reconnecting; start over
+      this.cleanup(existing);
     }
 
-    const agentName = name || this.config.defaultName;
-    this.state.agentName = agentName;
+    let walkMap: WalkMap | null;
     try {
-      await this.daemon.spawn(room, {
-        name: agentName,
-        command: this.config.daemonCommand,
-        voice: this.config.voice,
+      walkMap = loadWalkMap(this.config.mapsDir || DEFAULT_MAPS_DIR, mapNameOf(room));
+      this.landmarks.load(mapNameOf(room));
+    } catch (err: any) {
+      return fail("join_failed", `Failed to load map "${mapNameOf(room)}": ${err.message}`, { room });
+    }
+
+    try {
+      this.transcriptLog.prune(room);
+    } catch (err: any) {
+      this.logger?.warn?.(`[Rambly ${room}] Failed to prune transcript log: ${err.message}`);
+    }
+
+    const config = resolveRoomConfig(this.config, room);
+    const agentName = name || config.defaultName;
+    const sprite = character || config.defaultCharacter;
+    const session = this.createSession(room, agentName, sprite, walkMap, config);
+    this.rooms.set(room, session);
+    try {
+      await session.supervisor.start();
+      // Load the initial peer list so follow works right away
+      await session.daemon.request({ action: "peers" }).catch(() => {});
+      this.startPresenceLoop(session);
+      const { position } = session.state;
+      return { ok: true, room, name: agentName, character: sprite, x: position.x, y: position.y, alreadyJoined: false };
+    } catch (err: any) {
+      this.cleanup(session);
+      return fail("join_failed", `Failed to join: ${err.message}`, { room });
+    }
+  }
+
+  async leave(room?: string): Promise<LeaveResult> {
+    const session = this.resolveSession(room);
+    if ("error" in session) {
+      return this.rooms.size === 0 ? fail("not_connected", "Not connected to any room.") : session;
+    }
+    this.stopFollow(session);
+    this.cleanup(session);
+    return { ok: true, room: session.room };
+  }
+
+  async leaveAll(): Promise<void> {
+    for (const room of [...this.rooms.keys()]) {
+      await this.leave(room);
+    }
+  }
+
+  /**
+   * Say `text`, a sentence at a time, after anything already queued in the
+   * room. Markdown, URLs and the like are cleaned up for TTS first. Resolves
+   * once it's done or cut off, with what was actually said.
+   */
+  async speak(text: string, room?: string): Promise<SpeakResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+
+    const speakable = normalizeForSpeech(text, { maxLength: session.config.maxSpokenLength });
+    if (!speakable.text) {
+      return fail("invalid_params", "Nothing to say once formatting is removed.", { room: session.room });
+    }
+
+    let outcome: SpeechOutcome;
+    try {
+      outcome = await session.speech.say(speakable.text);
+    } catch (err: any) {
+      return fail("daemon_error", `Failed to speak: ${err.message}`, { room: session.room });
+    }
+    const spoken = outcome.spoken.join(" ");
+    const cutOff = outcome.cutOff.join(" ");
+
+    if (spoken) {
+      const { state } = session;
+      this.record(session, {
+        kind: "spoke",
+        speakerId: state.peerId,
+        speakerName: state.agentName ?? "",
+        text: spoken,
+        x: state.position.x,
+        y: state.position.y,
+        distance: 0,
       });
-      // Request initial peer list
-      this.daemon.send({ action: "peers" });
-      return `Joined room "${room}" as "${agentName}".`;
+    }
+    return {
+      ok: true,
+      room: session.room,
+      text,
+      spoken,
+      cutOff,
+      interrupted: cutOff !== "",
+      truncated: speakable.truncated,
+    };
+  }
+
+  /**
+   * Stop talking now and drop any queued speech.
+   */
+  async stopSpeaking(room?: string): Promise<StopSpeakingResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    return { ok: true, room: session.room, stopped: session.speech.interrupt() };
+  }
+
+  /**
+   * Switch the sprite the agent appears as. Kept across reconnects.
+   */
+  async setCharacter(character: string, room?: string): Promise<CharacterResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    if (!CHARACTER_PATTERN.test(character)) {
+      return fail("invalid_params", `Invalid character "${character}". Use a sprite name like "king".`, { room: session.room });
+    }
+
+    const previous = session.state.character;
+    try {
+      await session.daemon.request({ action: "character", character });
+    } catch (err: any) {
+      return fail("daemon_error", `Failed to change character: ${err.message}`, { room: session.room });
+    }
+    return { ok: true, room: session.room, character: session.state.character, previous };
+  }
+
+  /**
+   * Play an emote. Resolves once the daemon has started it.
+   */
+  async emote(emote: string, room?: string): Promise<EmoteResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    if (!isEmote(emote)) {
+      return fail("invalid_params", `Unknown emote "${emote}". Available: ${EMOTES.join(", ")}.`, { room: session.room });
+    }
+
+    try {
+      await session.daemon.request({ action: "emote", emote });
+    } catch (err: any) {
+      return fail("daemon_error", `Failed to emote: ${err.message}`, { room: session.room });
+    }
+    return { ok: true, room: session.room, emote };
+  }
+
+  /**
+   * Move to (x, y). On maps with walkability data the target is clamped to
+   * walkable ground and the agent walks a planned route there; otherwise it
+   * moves straight to the spot. Either way this ends follow mode.
+   */
+  async move(x: number, y: number, room?: string): Promise<MoveResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    this.stopFollow(session);
+
+    const { walkMap } = session;
+    if (walkMap) {
+      const target = clampToWalkable(walkMap, { x, y });
+      const path = target && findPath(walkMap, session.state.position, target);
+      if (!target || !path) {
+        return fail("unreachable", `Can't reach (${x}, ${y}) from here on map "${walkMap.name}".`, { room: session.room });
+      }
+      return this.walkPath(session, path);
+    }
+
+    this.stopWalk(session, "Interrupted by another move.");
+    try {
+      await session.daemon.request({ action: "move", x, y });
+    } catch (err: any) {
+      return fail("daemon_error", `Failed to move: ${err.message}`, { room: session.room });
+    }
+    session.state.position = { x, y };
+    return { ok: true, room: session.room, x, y, moved: true };
+  }
+
+  /**
+   * Walk through `path` one step per tick, then stop the walking animation
+   * at the final waypoint. A newer move, follow or leave cuts it short.
+   */
+  private async walkPath(session: RoomSession, path: Point[]): Promise<MoveResult> {
+    this.stopWalk(session, "Interrupted by another move.");
+    const walk = { cancelled: null as string | null };
+    session.walk = walk;
+
+    try {
+      for (const waypoint of path) {
+        let arrived = false;
+        while (!arrived) {
+          if (walk.cancelled) return fail("interrupted", walk.cancelled, { room: session.room });
+          arrived = this.stepToward(session, waypoint, session.config.followStepSize);
+          await new Promise((r) => setTimeout(r, STEP_INTERVAL_MS));
+        }
+      }
+      if (walk.cancelled) return fail("interrupted", walk.cancelled, { room: session.room });
+
+      const { x, y } = session.state.position;
+      await session.daemon.request({ action: "move", x, y, step: 0 });
+      return { ok: true, room: session.room, x, y, moved: true };
     } catch (err: any) {
-      return `Failed to join: ${err.message}`;
+      return fail("daemon_error", `Failed to move: ${err.message}`, { room: session.room });
+    } finally {
+      if (session.walk === walk) session.walk = null;
     }
   }
 
-  async leave(): Promise<string> {
-    if (!this.state.connected) {
-      return "Not connected to any room.";
+  private stopWalk(session: RoomSession, reason: string) {
+    if (session.walk) {
+      session.walk.cancelled = reason;
+      session.walk = null;
+    }
+  }
+
+  async moveBy(dx: number, dy: number, room?: string): Promise<MoveResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    const { position } = session.state;
+    return this.move(Math.round(position.x + dx), Math.round(position.y + dy), session.room);
+  }
+
+  /**
+   * Walk toward a peer, stopping `stopDistance` short of them.
+   */
+  async approach(name: string, stopDistance: number, room?: string): Promise<MoveResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+
+    const peer = this.findPeerByName(session, name);
+    if (!peer) {
+      return this.peerNotFound(session, name);
+    }
+    if (!peer.position) {
+      return fail("position_unknown", `Position of "${peer.name}" is unknown.`, { room: session.room });
+    }
+
+    const { position } = session.state;
+    const dist = this.distance(position, peer.position);
+    if (dist <= stopDistance) {
+      return { ok: true, room: session.room, x: position.x, y: position.y, moved: false };
+    }
+    const ratio = (dist - stopDistance) / dist;
+    return this.move(
+      Math.round(position.x + (peer.position.x - position.x) * ratio),
+      Math.round(position.y + (peer.position.y - position.y) * ratio),
+      session.room,
+    );
+  }
+
+  /**
+   * Step `amount` units directly away from a peer.
+   */
+  async stepAway(name: string, amount: number, room?: string): Promise<MoveResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+
+    const peer = this.findPeerByName(session, name);
+    if (!peer?.position) {
+      return fail("position_unknown", `Position of "${name}" is unknown.`, { room: session.room });
     }
-    this.stopFollow();
-    this.daemon.kill();
-    this.cleanup();
-    return "Left the room.";
+
+    const { position } = session.state;
+    const dist = this.distance(position, peer.position);
+    // Standing on top of them: back off along the x axis
+    const [ux, uy] = dist < 1
+      ? [1, 0]
+      : [(position.x - peer.position.x) / dist, (position.y - peer.position.y) / dist];
+    return this.moveBy(ux * amount, uy * amount, session.room);
   }
 
-  async speak(text: string): Promise<string> {
-    if (!this.state.connected) {
-      return "Not connected. Join a room first.";
+  /**
+   * Join a conversation: walk to a free spot at the edge of a group of peers,
+   * in earshot of all of them, and face its middle. With `name`, the group
+   * that peer is in; otherwise the nearest group of two or more.
+   */
+  async joinGroup(name?: string, room?: string): Promise<JoinGroupResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+    const { state, walkMap, config } = session;
+
+    const placed: PlacedPeer[] = [...state.peers.values()]
+      .filter((p) => p.position)
+      .map((p) => ({ id: p.id, name: p.name, ...p.position! }));
+    const groups = findGroups(placed, config.groupLinkDistance);
+
+    let group: PlacedPeer[] | undefined;
+    if (name) {
+      const peer = this.findPeerByName(session, name);
+      if (!peer) return this.peerNotFound(session, name);
+      group = groups.find((g) => g.some((p) => p.id === peer.id));
+      if (!group) return fail("position_unknown", `Position of "${peer.name}" is unknown.`, { room: session.room });
+    } else {
+      group = groups
+        .filter((g) => g.length > 1)
+        .sort((a, b) => this.distance(state.position, centroid(a)) - this.distance(state.position, centroid(b)))[0];
+      if (!group) return fail("no_group", "Nobody here is standing together.", { room: session.room });
+    }
+
+    const members = group.map((p) => p.name);
+    const others = placed.filter((p) => !group!.includes(p));
+    const spotOptions = {
+      hearingRadius: config.hearingRadius,
+      personalSpace: config.personalSpace,
+      others,
+      walkable: walkMap ? (p: { x: number; y: number }) => isWalkable(walkMap, p) : undefined,
+    };
+    const center = centroid(group);
+
+    // Already part of the circle: just turn to it
+    const here = state.position;
+    const fits = group.every((p) => this.distance(p, here) <= config.hearingRadius)
+      && placed.every((p) => this.distance(p, here) >= config.personalSpace);
+    if (fits) {
+      this.face(session, center);
+      return { ok: true, room: session.room, x: here.x, y: here.y, members, moved: false };
     }
-    this.daemon.send({ action: "speak", text });
-    return `Speaking: "${text}"`;
+
+    const spot = findGroupSpot(group, here, spotOptions);
+    if (!spot) {
+      return fail("unreachable", `There's no free spot next to ${members.join(", ")}.`, { room: session.room });
+    }
+    const moved = await this.move(spot.x, spot.y, session.room);
+    if (!moved.ok) return moved;
+    this.face(session, center);
+    return { ok: true, room: session.room, x: moved.x, y: moved.y, members, moved: moved.moved };
+  }
+
+  /**
+   * Landmarks on the room's map, nearest first.
+   */
+  async listLandmarks(room?: string): Promise<LandmarksResult> {
+    const session = this.resolveSession(room);
+    if ("error" in session) return session;
+    const map = mapNameOf(session.room);
+    const { position } = session.state;
+    const landmarks = this.landmarks
+      .load(map)
+      .map((l) => ({ ...l, distance: Math.round(this.distance(position, l)) }))
+      .sort((a, b) => a.distance - b.distance);
+    return { ok: true, room: session.room, map, landmarks };
   }
 
-  async move(x: number, y: number): Promise<string> {
-    if (!this.state.connected) {
-      return "Not connected. Join a room first.";
+  /**
+   * Walk to a named landmark. Being anywhere inside an area already counts
+   * as there.
+   */
+  async goto(name: string, room?: string): Promise<GotoResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+
+    const landmark = this.findLandmark(session.room, name);
+    if (!landmark) {
+      const map = mapNameOf(session.room);
+      return fail("landmark_not_found", `No landmark called "${name}" on map "${map}".`, {
+        room: session.room,
+        availableLandmarks: this.landmarks.load(map).map((l) => l.name),
+      });
+    }
+
+    const { position } = session.state;
+    if (landmark.radius != null && this.distance(position, landmark) <= landmark.radius) {
+      return { ok: true, room: session.room, landmark: landmark.name, x: position.x, y: position.y, moved: false };
     }
-    this.daemon.send({ action: "move", x, y });
-    this.state.position = { x, y };
-    return `Moved to (${x}, ${y}).`;
+    const result = await this.move(landmark.x, landmark.y, session.room);
+    return result.ok ? { ...result, landmark: landmark.name } : result;
   }
 
-  async follow(name: string): Promise<string> {
-    if (!this.state.connected) {
-      return "Not connected. Join a room first.";
+  /**
+   * Save the agent's current position as a landmark on the room's map.
+   */
+  async saveLandmark(name: string, room?: string, radius?: number): Promise<SaveLandmarkResult> {
+    const session = this.resolveSession(room);
+    if ("error" in session) return session;
+    if (!name.trim()) return fail("invalid_params", "Landmark name required", { room: session.room });
+
+    const map = mapNameOf(session.room);
+    if (radius != null && !isValidRadius(radius)) {
+      return fail("invalid_params", `Radius must be a number of 0 or more, got ${radius}`, { room: session.room });
+    }
+    const { x, y } = session.state.position;
+    const landmark: Landmark = { name: name.trim(), x, y };
+    if (radius != null) landmark.radius = radius;
+    try {
+      const replaced = this.landmarks.save(map, landmark);
+      return { ok: true, room: session.room, map, landmark, replaced };
+    } catch (err: any) {
+      return fail("storage_error", `Failed to save landmark: ${err.message}`, { room: session.room });
     }
+  }
+
+  findLandmark(room: string, name: string): Landmark | undefined {
+    return this.landmarks.find(mapNameOf(room), name);
+  }
 
-    const peer = this.findPeerByName(name);
+  async follow(name: string, room?: string): Promise<FollowResult> {
+    const session = this.connectedSession(room);
+    if ("error" in session) return session;
+
+    const peer = this.findPeerByName(session, name);
     if (!peer) {
-      return `No peer named "${name}" found in the room.`;
+      return this.peerNotFound(session, name);
     }
 
-    this.state.followTarget = name;
-    this.state.followBreadcrumbs = [];
+    this.stopWalk(session, `Interrupted to follow ${peer.name}.`);
+    const { state } = session;
+    state.followTarget = peer.name;
+    state.followTargetId = peer.id;
+    state.followLostAt = null;
+    state.followArrived = false;
+    state.followBreadcrumbs = [];
+    session.followSpeed.reset();
 
     if (peer.position) {
-      this.state.followBreadcrumbs.push({ ...peer.position });
+      state.followBreadcrumbs.push({ ...peer.position });
+      session.followSpeed.sample(peer.position);
     }
 
-    this.startFollowLoop();
-    return `Now following "${name}".`;
+    this.startFollowLoop(session);
+    return { ok: true, room: session.room, target: peer.name, x: peer.position?.x ?? null, y: peer.position?.y ?? null };
+  }
+
+  async unfollow(room?: string): Promise<UnfollowResult> {
+    const session = this.resolveSession(room);
+    if ("error" in session) return session;
+    const was = session.state.followTarget;
+    this.stopFollow(session);
+    return { ok: true, room: session.room, target: was };
   }
 
-  async unfollow(): Promise<string> {
-    if (!this.state.followTarget) {
-      return "Not following anyone.";
+  /**
+   * Status for one room, or for every joined room when none is given.
+   */
+  async status(room?: string): Promise<StatusResult> {
+    let sessions: RoomSession[];
+    if (room) {
+      const session = this.rooms.get(room);
+      if (!session) return fail("not_connected", `Not connected to room "${room}".`, { room });
+      sessions = [session];
+    } else {
+      sessions = [...this.rooms.values()];
+    }
+    if (sessions.length === 0) {
+      return fail("not_connected", "Not connected to any room.");
     }
-    const was = this.state.followTarget;
-    this.stopFollow();
-    return `Stopped following "${was}".`;
+
+    // Refresh state from daemons; the status event updates state as it lands.
+    // Rooms that are down or slow to answer report their cached state.
+    await Promise.allSettled(
+      sessions
+        .filter((s) => s.state.connected)
+        .map((s) => s.daemon.request({ action: "status" })),
+    );
+
+    return { ok: true, rooms: sessions.map((s) => this.roomStatus(s)) };
   }
 
-  async status(): Promise<string> {
-    if (!this.state.connected) {
-      return "Not connected to any room.";
+  /**
+   * Search the transcript logs, newest first. Covers every room ever joined
+   * unless `room` is given; `since`/`until` take epoch ms, ISO dates or
+   * relative times like "2h".
+   */
+  async history(query: {
+    room?: string;
+    speaker?: string;
+    since?: string | number;
+    until?: string | number;
+    text?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<HistoryResult> {
+    if (query.room && !ROOM_PATTERN.test(query.room)) {
+      return fail("invalid_room", `Invalid room "${query.room}". Use <map>:<code>, e.g. forest:haku-test.`, { room: query.room });
+    }
+    const since = query.since != null ? parseTime(query.since) : undefined;
+    const until = query.until != null ? parseTime(query.until) : undefined;
+    if (since === null || until === null) {
+      return fail("invalid_params", `Can't read time "${since === null ? query.since : query.until}". Use an ISO date or e.g. "30m", "2h", "7d".`);
     }
+    const limit = Math.min(Math.max(1, query.limit ?? 20), MAX_HISTORY_LIMIT);
+    const offset = Math.max(0, query.offset ?? 0);
 
-    // Refresh state from daemon
-    this.daemon.send({ action: "status" });
-    // Small delay for response
-    await new Promise((r) => setTimeout(r, 300));
+    try {
+      const page = this.transcriptLog.query({ ...query, since, until, limit, offset });
+      return { ok: true, ...page, offset, limit };
+    } catch (err: any) {
+      return fail("storage_error", `Failed to read transcript log: ${err.message}`);
+    }
+  }
 
-    const nearbyPeers: string[] = [];
-    for (const peer of this.state.peers.values()) {
-      if (peer.position) {
-        const dist = Math.round(this.distance(this.state.position, peer.position));
-        const inRange = dist <= this.config.hearingRadius ? "  [in hearing range]" : "";
-        nearbyPeers.push(`  ${peer.name} at (${peer.position.x}, ${peer.position.y}) - ${dist} units away${inRange}`);
-      } else {
-        nearbyPeers.push(`  ${peer.name} (position unknown)`);
-      }
+  private roomStatus(session: RoomSession): RoomStatus {
+    const { state } = session;
+    const nearest = this.landmarks.nearest(mapNameOf(session.room), state.position);
+    const now = Date.now();
+    const peers: PeerStatus[] = [...state.peers.values()].map((peer) => {
+      const distance = peer.position ? Math.round(this.distance(state.position, peer.position)) : null;
+      const presence = session.presence.get(peer.id);
+      return {
+        id: peer.id,
+        name: peer.name,
+        x: peer.position?.x ?? null,
+        y: peer.position?.y ?? null,
+        distance,
+        inRange: distance != null && distance <= session.config.hearingRadius,
+        presentForMs: presence ? now - presence.since : null,
+        inRangeForMs: presence?.inRangeSince != null ? now - presence.inRangeSince : null,
+        lastSeen: presence?.lastSeen ?? null,
+      };
+    });
+
+    return {
+      room: session.room,
+      connection: this.connectionStatus(session),
+      x: state.position.x,
+      y: state.position.y,
+      hearingRadius: session.config.hearingRadius,
+      character: state.character,
+      following: state.followTarget,
+      followState: !state.followTarget
+        ? null
+        : state.followLostAt != null ? "waiting" : state.followArrived ? "arrived" : "walking",
+      nearestLandmark: nearest && {
+        name: nearest.landmark.name,
+        distance: Math.round(nearest.distance),
+        inside: nearest.inside,
+      },
+      peers,
+      recentTranscripts: [...state.pendingTranscripts],
+      recentPresence: [...session.recentPresence],
+      behaviors: this.behaviorStatus?.(session.room) ?? null,
+    };
+  }
+
+  private connectionStatus(session: RoomSession): ConnectionStatus {
+    const { supervisor } = session;
+    switch (supervisor.status) {
+      case "reconnecting":
+        return {
+          state: "reconnecting",
+          attempt: supervisor.attempts,
+          maxRetries: this.config.reconnectMaxRetries,
+          lastError: supervisor.lastError,
+        };
+      case "failed":
+        return { state: "failed", attempts: supervisor.attempts, lastError: supervisor.lastError };
+      default:
+        if (session.state.connected) return { state: "connected" };
+        return { state: supervisor.status === "stopped" ? "stopped" : "starting" };
     }
+  }
 
-    const lines = [
-      `Room: ${this.state.room}`,
-      `Position: (${this.state.position.x}, ${this.state.position.y})`,
-      `Hearing radius: ${this.config.hearingRadius}`,
-      `Following: ${this.state.followTarget || "nobody"}`,
-      `Peers (${this.state.peers.size}):`,
-      ...nearbyPeers,
-    ];
-
-    // Add recent transcripts
-    if (this.state.pendingTranscripts.length > 0) {
-      lines.push(`Recent transcripts:`);
-      for (const t of this.state.pendingTranscripts) {
-        lines.push(`  ${t.name}: "${t.text}"`);
+  // Turn on the spot toward a point; not while walking, which sets its own heading
+  private face(session: RoomSession, point: { x: number; y: number }) {
+    const { state } = session;
+    if (session.walk || state.followTarget || !state.connected) return;
+    if (this.distance(state.position, point) < 1) return;
+    try {
+      const { x, y } = state.position;
+      session.daemon.send({ action: "move", x, y, theta: facing(state.position, point), step: 0 });
+    } catch (err: any) {
+      this.logger?.warn?.(`[Rambly ${session.room}] Failed to turn: ${err.message}`);
+    }
+  }
+
+  private peerNotFound(session: RoomSession, name: string): RamblyError {
+    return fail("peer_not_found", `No peer named "${name}" found in room "${session.room}".`, {
+      room: session.room,
+      availablePeers: [...session.state.peers.values()].map((p) => p.name),
+    });
+  }
+
+  clearTranscripts(room?: string): void {
+    for (const session of this.rooms.values()) {
+      if (!room || session.room === room) {
+        session.state.pendingTranscripts = [];
       }
     }
+  }
+
+  getRooms(): string[] {
+    return [...this.rooms.keys()];
+  }
 
-    return lines.join("\n");
+  getPosition(room: string): { x: number; y: number } | null {
+    const session = this.rooms.get(room);
+    return session ? { ...session.state.position } : null;
   }
-  
-  clearTranscripts(): void {
-    this.state.pendingTranscripts = [];
+
+  /**
+   * Peers in a room with their distance from the agent (null when unknown).
+   */
+  getPeers(room: string): Array<PeerInfo & { distance: number | null }> {
+    const session = this.rooms.get(room);
+    if (!session) return [];
+    return [...session.state.peers.values()].map((p) => ({
+      ...p,
+      distance: p.position ? Math.round(this.distance(session.state.position, p.position)) : null,
+    }));
   }
-  
-  getRoom(): string | null {
-    return this.state.room;
+
+  /**
+   * Who the agent is in a room and who it can hear, for response decisions.
+   */
+  getListeningContext(room: string): { agentName: string | null; followTarget: string | null; peersInRange: PeerInfo[] } | null {
+    const session = this.rooms.get(room);
+    if (!session) return null;
+    const { state } = session;
+    const peersInRange = [...state.peers.values()].filter(
+      (p) => p.position && this.distance(state.position, p.position) <= session.config.hearingRadius,
+    );
+    return { agentName: state.agentName, followTarget: state.followTarget, peersInRange };
+  }
+
+  /**
+   * The room as the agent's prompt should see it: its own position and
+   * follow state, who's around, and the latest conversation, trimmed to the
+   * room's `contextTokenBudget`. Heard lines listed in `exclude` (the ones
+   * being answered) are left out. Null when not in the room or disabled.
+   */
+  getRoomContext(room: string, exclude: Array<{ from: string; text: string }> = []): string | null {
+    const session = this.rooms.get(room);
+    if (!session || session.config.contextTokenBudget === 0) return null;
+    const status = this.roomStatus(session);
+
+    let transcript: HistoryEntry[] = [];
+    try {
+      const since = Date.now() - CONTEXT_MAX_AGE_MS;
+      transcript = this.transcriptLog
+        .query({ room, since, limit: MAX_HISTORY_LIMIT })
+        .entries.filter((e) => e.kind === "spoke" || !exclude.some((u) => u.from === e.speakerId && u.text.includes(e.text)))
+        .reverse();
+    } catch (err: any) {
+      this.logger?.warn?.(`[Rambly ${room}] Failed to read transcript log: ${err.message}`);
+    }
+
+    return buildRoomContext({
+      room,
+      position: { x: Math.round(status.x), y: Math.round(status.y) },
+      hearingRadius: status.hearingRadius,
+      following: status.following,
+      followState: status.followState,
+      nearestLandmark: status.nearestLandmark,
+      peers: status.peers,
+      transcript,
+    }, session.config.contextTokenBudget);
+  }
+
+  /**
+   * The config in effect for a room: its overrides on top of the plugin
+   * config, as resolved when it was joined.
+   */
+  getRoomConfig(room: string): RamblyPluginConfig {
+    return this.rooms.get(room)?.config ?? resolveRoomConfig(this.config, room);
   }
 
   // --- Follow Mode ---
 
-  private startFollowLoop() {
-    this.stopFollowLoop();
+  private startFollowLoop(session: RoomSession) {
+    this.stopFollowLoop(session);
+    const state = session.state;
 
-    this.followInterval = setInterval(() => {
-      if (!this.state.followTarget || !this.state.connected) {
-        this.stopFollowLoop();
+    session.followInterval = setInterval(() => {
+      if (!state.followTarget || !state.connected) {
+        this.stopFollowLoop(session);
         return;
       }
 
-      const target = this.findPeerByName(this.state.followTarget);
-      if (!target?.position) return;
+      const target = this.findFollowTarget(session);
+      if (!target) {
+        this.loseFollowTarget(session);
+        if (Date.now() - state.followLostAt! >= session.config.followGraceMs) this.giveUpFollow(session);
+        return;
+      }
+      if (state.followLostAt != null) {
+        this.logger?.info(`[Rambly ${session.room}] ${target.name} is back; following again`);
+        state.followLostAt = null;
+        state.followBreadcrumbs = [];
+      }
+      if (!target.position) return;
 
       // Record breadcrumb if target moved
-      const crumbs = this.state.followBreadcrumbs;
+      const crumbs = state.followBreadcrumbs;
       const lastCrumb = crumbs[crumbs.length - 1];
       if (!lastCrumb || this.distance(lastCrumb, target.position) > 5) {
         crumbs.push({ ...target.position });
@@ -304,62 +1134,159 @@ export class RamblyManager {
         if (crumbs.length > 100) crumbs.shift();
       }
 
-      const dist = this.distance(this.state.position, target.position);
+      const dist = this.distance(state.position, target.position);
+      const { followDistance, followStepSize, followMaxStepSize } = session.config;
 
-      // Already close enough - stop walking animation
-      if (dist <= this.config.followDistance) {
-        // Send step=0 to stop walking animation
-        this.daemon.send({ action: "move", x: this.state.position.x, y: this.state.position.y, step: 0 });
+      // Close enough: stop the walking animation once, then wait
+      if (dist <= followDistance) {
+        if (!state.followArrived) {
+          state.followArrived = true;
+          try {
+            session.daemon.send({ action: "move", x: state.position.x, y: state.position.y, step: 0 });
+          } catch (err: any) {
+            this.logger?.warn?.(`[Rambly ${session.room}] Failed to stop walking: ${err.message}`);
+          }
+        }
         return;
       }
+      state.followArrived = false;
+
+      // Match the target's pace, and go faster while there's ground to make up
+      const stepSize = followStep({
+        speed: session.followSpeed.speed(),
+        gap: dist - followDistance,
+        intervalMs: STEP_INTERVAL_MS,
+        maxStep: followMaxStepSize,
+      });
 
       // Move toward the oldest breadcrumb we haven't reached yet
       let nextPoint = crumbs[0] || target.position;
 
-      // Pop breadcrumbs we've already reached
-      while (crumbs.length > 1 && this.distance(this.state.position, crumbs[0]) < this.config.followStepSize) {
+      // Pop breadcrumbs we've already reached; steps never overshoot one, so
+      // the trail is kept to as closely at speed as at a walk
+      while (crumbs.length > 1 && this.distance(state.position, crumbs[0]) < followStepSize) {
         crumbs.shift();
         nextPoint = crumbs[0] || target.position;
       }
 
-      // Step toward next point
-      const dx = nextPoint.x - this.state.position.x;
-      const dy = nextPoint.y - this.state.position.y;
-      const stepDist = Math.sqrt(dx * dx + dy * dy);
+      // Route around obstacles when the next point isn't in plain view
+      const { walkMap } = session;
+      if (walkMap && !hasLineOfSight(walkMap, state.position, nextPoint)) {
+        const goal = clampToWalkable(walkMap, nextPoint);
+        const route = goal && findPath(walkMap, state.position, goal);
+        if (!route) return; // Can't get there from here; wait for the target to move
+        nextPoint = route[0];
+      }
+
+      // A throw here would escape the interval and take the process down
+      try {
+        this.stepToward(session, nextPoint, stepSize);
+      } catch (err: any) {
+        this.logger?.warn?.(`[Rambly ${session.room}] Failed to step toward ${target.name}: ${err.message}`);
+      }
+    }, STEP_INTERVAL_MS);
+  }
+
+  /**
+   * The peer being followed: by id, or by name if they've rejoined under a
+   * new id (which is then tracked instead).
+   */
+  private findFollowTarget(session: RoomSession): PeerInfo | undefined {
+    const { state } = session;
+    if (!state.followTarget) return undefined;
+    const byId = state.followTargetId ? state.peers.get(state.followTargetId) : undefined;
+    if (byId) return byId;
+    const byName = this.findPeerByName(session, state.followTarget);
+    if (byName) state.followTargetId = byName.id;
+    return byName;
+  }
+
+  // Target gone: stand still and start the grace period, once
+  private loseFollowTarget(session: RoomSession) {
+    const { state } = session;
+    if (state.followLostAt != null) return;
+    state.followLostAt = Date.now();
+    state.followArrived = false;
+    session.followSpeed.reset();
+    this.logger?.info(`[Rambly ${session.room}] Lost ${state.followTarget}; waiting for them to come back`);
+    try {
+      session.daemon.send({ action: "move", x: state.position.x, y: state.position.y, step: 0 });
+    } catch {
+      // Not connected; nothing to stop
+    }
+  }
+
+  private giveUpFollow(session: RoomSession) {
+    const name = session.state.followTarget!;
+    this.stopFollow(session);
+    this.logger?.info(`[Rambly ${session.room}] ${name} didn't come back; stopped following`);
+    const message = session.config.followLostMessage.replace(/\{name\}/g, name);
+    if (!message) return;
+    this.speak(message, session.room).then((result) => {
+      if (!result.ok) this.logger?.warn?.(`[Rambly ${session.room}] Failed to announce lost target: ${result.error}`);
+    });
+  }
+
+  /**
+   * Take one walking step of at most `stepSize` toward `point`. Returns true
+   * once the agent is standing on it.
+   */
+  private stepToward(session: RoomSession, point: Point, stepSize: number): boolean {
+    const { state } = session;
+    const dx = point.x - state.position.x;
+    const dy = point.y - state.position.y;
+    const stepDist = Math.sqrt(dx * dx + dy * dy);
 
-      if (stepDist < 1) return;
+    if (stepDist < 1) return true;
 
-      // Calculate theta (angle pointing toward target)
-      const theta = Math.atan2(dy, dx);
-      
-      const stepSize = Math.min(this.config.followStepSize, stepDist);
-      const nx = Math.round(this.state.position.x + (dx / stepDist) * stepSize);
-      const ny = Math.round(this.state.position.y + (dy / stepDist) * stepSize);
+    // Calculate theta (angle pointing toward target)
+    const theta = Math.atan2(dy, dx);
 
-      // Send move with theta and step=1 for walking animation
-      this.daemon.send({ action: "move", x: nx, y: ny, theta, step: 1 });
-      this.state.position = { x: nx, y: ny };
-    }, 100); // Faster updates (100ms instead of 500ms)
+    const step = Math.min(stepSize, stepDist);
+    const nx = Math.round(state.position.x + (dx / stepDist) * step);
+    const ny = Math.round(state.position.y + (dy / stepDist) * step);
+
+    // Send move with theta and step=1 for walking animation
+    session.daemon.send({ action: "move", x: nx, y: ny, theta, step: 1 });
+    state.position = { x: nx, y: ny };
+    return step === stepDist;
   }
 
-  private stopFollowLoop() {
-    if (this.followInterval) {
-      clearInterval(this.followInterval);
-      this.followInterval = null;
+  private stopFollowLoop(session: RoomSession) {
+    if (session.followInterval) {
+      clearInterval(session.followInterval);
+      session.followInterval = null;
     }
   }
 
-  private stopFollow() {
-    this.state.followTarget = null;
-    this.state.followBreadcrumbs = [];
-    this.stopFollowLoop();
+  private stopFollow(session: RoomSession) {
+    const { state } = session;
+    state.followTarget = null;
+    state.followTargetId = null;
+    state.followLostAt = null;
+    state.followArrived = false;
+    state.followBreadcrumbs = [];
+    session.followSpeed.reset();
+    this.stopFollowLoop(session);
   }
 
-  private cleanup() {
-    this.stopFollow();
-    this.state.connected = false;
-    this.state.room = null;
-    this.state.peerId = null;
-    this.state.peers.clear();
+  private cleanup(session: RoomSession) {
+    // Cut speech off while the daemon can still take the stop
+    session.speech.interrupt();
+    session.supervisor.stop();
+    this.stopFollow(session);
+    this.stopWalk(session, "Left the room.");
+    if (session.presenceInterval) {
+      clearInterval(session.presenceInterval);
+      session.presenceInterval = null;
+    }
+    session.presence.clear();
+    session.state.connected = false;
+    session.state.room = null;
+    session.state.peerId = null;
+    session.state.peers.clear();
+    if (this.rooms.get(session.room) === session) {
+      this.rooms.delete(session.room);
+    }
   }
 }
@@ -0,0 +1,282 @@
+/**
+ * Per-map walkability and grid pathfinding.
+ *
+ * Map files live in the maps directory as `<map>.json`, keyed by the `<map>`
+ * part of the room name (`forest:haku-test` -> `forest.json`):
+ *
+ *   {
+ *     "width": 1000, "height": 700,   // map bounds in map units
+ *     "cellSize": 10,                  // grid resolution (default 10)
+ *     "obstacles": [{ "x": 100, "y": 80, "w": 200, "h": 40 }],
+ *     "grid": ["....##....", ...]      // optional; '#' cells are blocked
+ *   }
+ *
+ * Obstacles and grid may be combined. Maps without a file are unconstrained.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export type Point = { x: number; y: number };
+
+export interface WalkMapFile {
+  width: number;
+  height: number;
+  cellSize?: number;
+  obstacles?: Array<{ x: number; y: number; w: number; h: number }>;
+  grid?: string[];
+}
+
+export interface WalkMap {
+  name: string;
+  width: number;
+  height: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  // 1 = blocked, row-major
+  blocked: Uint8Array;
+}
+
+export const DEFAULT_MAPS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "maps");
+
+const DEFAULT_CELL_SIZE = 10;
+
+const mapCache = new Map<string, WalkMap | null>();
+
+/**
+ * The `<map>` part of a `<map>:<code>` room name.
+ */
+export function mapNameOf(room: string): string {
+  return room.split(":")[0];
+}
+
+/**
+ * Load (and cache) the walkability map for a map name. Returns null when the
+ * map has no file; throws if the file exists but is malformed.
+ */
+export function loadWalkMap(mapsDir: string, name: string): WalkMap | null {
+  const file = path.join(mapsDir, `${name}.json`);
+  if (mapCache.has(file)) return mapCache.get(file)!;
+
+  let map: WalkMap | null = null;
+  if (fs.existsSync(file)) {
+    const raw = JSON.parse(fs.readFileSync(file, "utf8")) as WalkMapFile;
+    map = buildWalkMap(name, raw);
+  }
+  mapCache.set(file, map);
+  return map;
+}
+
+export function buildWalkMap(name: string, raw: WalkMapFile): WalkMap {
+  if (!(raw.width > 0) || !(raw.height > 0)) {
+    throw new Error(`Map "${name}" needs positive width and height`);
+  }
+  const cellSize = raw.cellSize ?? DEFAULT_CELL_SIZE;
+  const cols = Math.ceil(raw.width / cellSize);
+  const rows = Math.ceil(raw.height / cellSize);
+  const blocked = new Uint8Array(cols * rows);
+
+  for (const o of raw.obstacles ?? []) {
+    const c0 = Math.max(0, Math.floor(o.x / cellSize));
+    const r0 = Math.max(0, Math.floor(o.y / cellSize));
+    const c1 = Math.min(cols - 1, Math.floor((o.x + o.w - 1) / cellSize));
+    const r1 = Math.min(rows - 1, Math.floor((o.y + o.h - 1) / cellSize));
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) blocked[r * cols + c] = 1;
+    }
+  }
+
+  (raw.grid ?? []).forEach((line, r) => {
+    if (r >= rows) return;
+    for (let c = 0; c < Math.min(line.length, cols); c++) {
+      if (line[c] === "#") blocked[r * cols + c] = 1;
+    }
+  });
+
+  return { name, width: raw.width, height: raw.height, cellSize, cols, rows, blocked };
+}
+
+function cellOf(map: WalkMap, p: Point): [number, number] {
+  return [
+    Math.min(map.cols - 1, Math.max(0, Math.floor(p.x / map.cellSize))),
+    Math.min(map.rows - 1, Math.max(0, Math.floor(p.y / map.cellSize))),
+  ];
+}
+
+function centerOf(map: WalkMap, c: number, r: number): Point {
+  return {
+    x: Math.min(map.width, Math.round((c + 0.5) * map.cellSize)),
+    y: Math.min(map.height, Math.round((r + 0.5) * map.cellSize)),
+  };
+}
+
+function isBlockedCell(map: WalkMap, c: number, r: number): boolean {
+  if (c < 0 || r < 0 || c >= map.cols || r >= map.rows) return true;
+  return map.blocked[r * map.cols + c] === 1;
+}
+
+export function isWalkable(map: WalkMap, p: Point): boolean {
+  if (p.x < 0 || p.y < 0 || p.x > map.width || p.y > map.height) return false;
+  const [c, r] = cellOf(map, p);
+  return !isBlockedCell(map, c, r);
+}
+
+/**
+ * Pull a point inside the map bounds and, if it lands on an obstacle, onto
+ * the nearest walkable cell. Returns null if the map has no walkable cells.
+ */
+export function clampToWalkable(map: WalkMap, p: Point): Point | null {
+  const inside = {
+    x: Math.round(Math.min(map.width, Math.max(0, p.x))),
+    y: Math.round(Math.min(map.height, Math.max(0, p.y))),
+  };
+  if (isWalkable(map, inside)) return inside;
+
+  // Breadth-first search outward for the closest open cell
+  const [sc, sr] = cellOf(map, inside);
+  const seen = new Uint8Array(map.cols * map.rows);
+  const queue: Array<[number, number]> = [[sc, sr]];
+  seen[sr * map.cols + sc] = 1;
+  while (queue.length > 0) {
+    const [c, r] = queue.shift()!;
+    if (!isBlockedCell(map, c, r)) return centerOf(map, c, r);
+    for (const [dc, dr] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const nc = c + dc;
+      const nr = r + dr;
+      if (nc < 0 || nr < 0 || nc >= map.cols || nr >= map.rows) continue;
+      if (seen[nr * map.cols + nc]) continue;
+      seen[nr * map.cols + nc] = 1;
+      queue.push([nc, nr]);
+    }
+  }
+  return null;
+}
+
+/**
+ * True if a straight walk from `a` to `b` crosses no blocked cell.
+ */
+export function hasLineOfSight(map: WalkMap, a: Point, b: Point): boolean {
+  const dist = Math.hypot(b.x - a.x, b.y - a.y);
+  // Sample at half-cell spacing so thin walls aren't skipped
+  const steps = Math.max(1, Math.ceil(dist / (map.cellSize / 2)));
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    if (!isWalkable(map, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const NEIGHBORS: Array<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+/**
+ * A* over the walkability grid (8-way, no corner cutting). Returns the
+ * waypoints to walk through, ending at `to`, or null if `to` can't be
+ * reached. Straight runs are collapsed, so a clear line gives `[to]`.
+ */
+export function findPath(map: WalkMap, from: Point, to: Point): Point[] | null {
+  if (!isWalkable(map, to)) return null;
+  if (hasLineOfSight(map, from, to)) return [to];
+
+  const [sc, sr] = cellOf(map, from);
+  const [gc, gr] = cellOf(map, to);
+  const size = map.cols * map.rows;
+  const start = sr * map.cols + sc;
+  const goal = gr * map.cols + gc;
+
+  const g = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const heuristic = (i: number) => Math.hypot((i % map.cols) - gc, Math.floor(i / map.cols) - gr);
+
+  // Small binary heap of [f, index]
+  const open: Array<[number, number]> = [];
+  const push = (item: [number, number]) => {
+    open.push(item);
+    let i = open.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (open[parent][0] <= open[i][0]) break;
+      [open[parent], open[i]] = [open[i], open[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = open[0];
+    const last = open.pop()!;
+    if (open.length > 0) {
+      open[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < open.length && open[l][0] < open[min][0]) min = l;
+        if (r < open.length && open[r][0] < open[min][0]) min = r;
+        if (min === i) break;
+        [open[min], open[i]] = [open[i], open[min]];
+        i = min;
+      }
+    }
+    return top;
+  };
+
+  g[start] = 0;
+  push([heuristic(start), start]);
+
+  while (open.length > 0) {
+    const [, current] = pop();
+    if (current === goal) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const c = current % map.cols;
+    const r = Math.floor(current / map.cols);
+    for (const [dc, dr, cost] of NEIGHBORS) {
+      const nc = c + dc;
+      const nr = r + dr;
+      if (isBlockedCell(map, nc, nr)) continue;
+      // Don't squeeze diagonally between two blocked cells
+      if (dc !== 0 && dr !== 0 && (isBlockedCell(map, c + dc, r) || isBlockedCell(map, c, r + dr))) continue;
+      const next = nr * map.cols + nc;
+      const tentative = g[current] + cost;
+      if (tentative < g[next]) {
+        g[next] = tentative;
+        cameFrom[next] = current;
+        push([tentative + heuristic(next), next]);
+      }
+    }
+  }
+
+  if (goal !== start && cameFrom[goal] === -1) return null;
+
+  const cells: Point[] = [];
+  for (let i = goal; i !== start && i !== -1; i = cameFrom[i]) {
+    cells.push(centerOf(map, i % map.cols, Math.floor(i / map.cols)));
+  }
+  if (cells.length === 0) return [to];
+  cells.reverse();
+  cells[cells.length - 1] = to;
+  return smoothPath(map, from, cells);
+}
+
+// Skip waypoints that can be seen past
+function smoothPath(map: WalkMap, from: Point, points: Point[]): Point[] {
+  const result: Point[] = [];
+  let anchor = from;
+  let i = 0;
+  while (i < points.length) {
+    let j = points.length - 1;
+    while (j > i && !hasLineOfSight(map, anchor, points[j])) j--;
+    result.push(points[j]);
+    anchor = points[j];
+    i = j + 1;
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+/**
+ * Who may give which voice command. Peers are owners, trusted, or anyone
+ * else; each command needs a tier. Rambly names aren't verified, so a name
+ * can be pinned to the peer ids allowed to use it.
+ */
+
+import type { PermissionTier, RamblyPluginConfig } from "./types.ts";
+
+export type AccessOptions = Pick<RamblyPluginConfig, "owners" | "trusted" | "commandPermissions" | "pinnedPeerIds">;
+
+export interface CommandDenial {
+  room: string;
+  command: string;
+  speaker: { id: string; name: string };
+  tier: PermissionTier;
+  required: PermissionTier;
+}
+
+const RANK: Record<PermissionTier, number> = { everyone: 0, trusted: 1, owner: 2 };
+
+const REFUSALS: Record<PermissionTier, string> = {
+  everyone: "",
+  trusted: "Sorry, I only take that from people I know.",
+  owner: "Sorry, only my owner can ask me that.",
+};
+
+export class AccessControl {
+  private owners: Set<string>;
+  private trusted: Set<string>;
+  private pinned: Map<string, Set<string>>;
+
+  constructor(
+    private options: AccessOptions,
+    private onDenied?: (denial: CommandDenial) => void,
+  ) {
+    const normalize = (entries: string[]) => new Set(entries.map((e) => normalizeEntry(e)));
+    this.owners = normalize(options.owners);
+    this.trusted = normalize(options.trusted);
+    this.pinned = new Map(
+      Object.entries(options.pinnedPeerIds).map(([name, ids]) => [name.trim().toLowerCase(), new Set(ids)]),
+    );
+  }
+
+  /**
+   * The speaker's tier. A name only counts if it isn't pinned, or the
+   * speaker's id is one of the ids pinned to it.
+   */
+  tierOf(speaker: { id: string; name: string }): PermissionTier {
+    const keys = [`id:${speaker.id}`];
+    const name = speaker.name.trim().toLowerCase();
+    const pinnedIds = this.pinned.get(name);
+    if (!pinnedIds || pinnedIds.has(speaker.id)) keys.push(name);
+
+    if (keys.some((k) => this.owners.has(k))) return "owner";
+    if (keys.some((k) => this.trusted.has(k))) return "trusted";
+    return "everyone";
+  }
+
+  required(command: string, fallback: PermissionTier): PermissionTier {
+    return this.options.commandPermissions[command] ?? fallback;
+  }
+
+  /**
+   * Check a command against the speaker's tier. Returns null when it's
+   * allowed, or the refusal to say back; denials are reported to `onDenied`.
+   */
+  check(room: string, command: string, fallback: PermissionTier, speaker: { id: string; name: string }): string | null {
+    const required = this.required(command, fallback);
+    const tier = this.tierOf(speaker);
+    if (RANK[tier] >= RANK[required]) return null;
+    this.onDenied?.({ room, command, speaker, tier, required });
+    return REFUSALS[required];
+  }
+}
+
+// Names match case-insensitively; "id:<peerId>" entries match exactly
+function normalizeEntry(entry: string): string {
+  const trimmed = entry.trim();
+  return /^id:/i.test(trimmed) ? `id:${trimmed.slice(3).trim()}` : trimmed.toLowerCase();
+}
@@ -0,0 +1,35 @@
+/**
+ * The persona prompt: a template from config, filled in per reply with who's
+ * talking and where.
+ */
+
+export const PERSONA_VARIABLES = ["agent", "room", "map", "speaker", "peers", "time"] as const;
+
+export type PersonaVariables = Record<(typeof PERSONA_VARIABLES)[number], string>;
+
+export const DEFAULT_PERSONA =
+  'You are {agent}, in a Rambly spatial voice chat room called "{room}". Keep responses brief and conversational ' +
+  "(1-3 sentences), as if speaking aloud, with no markdown or formatting. Be natural and friendly. " +
+  "{speaker} is speaking to you.";
+
+/**
+ * Variables in `template` that aren't PERSONA_VARIABLES, for config checks.
+ */
+export function unknownPersonaVariables(template: string): string[] {
+  const known: readonly string[] = PERSONA_VARIABLES;
+  return [...template.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).filter((name) => !known.includes(name));
+}
+
+export function renderPersona(template: string, vars: PersonaVariables): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.hasOwn(vars, name) ? vars[name as keyof PersonaVariables] : match,
+  );
+}
+
+/**
+ * Wall-clock time as the persona's {time}: "14:05".
+ */
+export function formatClock(now = Date.now()): string {
+  const d = new Date(now);
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
@@ -0,0 +1,132 @@
+import type { PeerInfo, ResponsePolicyMode } from "./types.ts";
+import { phonetic } from "./fuzzy.ts";
+
+export interface PolicyContext {
+  agentName: string | null;
+  // Extra names/wake words that count as addressing the agent
+  aliases: string[];
+  followTarget: string | null;
+  peersInRange: PeerInfo[];
+}
+
+export interface PolicyDecision {
+  respond: boolean;
+  reason: string;
+}
+
+/**
+ * Decide whether a transcript should get a reply. Transcripts that don't are
+ * still kept by the caller as conversation context.
+ */
+export function evaluateResponsePolicy(
+  mode: ResponsePolicyMode,
+  speaker: { id: string; name: string; text: string },
+  ctx: PolicyContext,
+): PolicyDecision {
+  switch (mode) {
+    case "always":
+      return { respond: true, reason: "policy: always" };
+
+    case "addressed":
+      return isAddressed(speaker.text, addressNames(ctx))
+        ? { respond: true, reason: "addressed by name" }
+        : { respond: false, reason: "not addressed" };
+
+    case "sole_peer": {
+      const others = ctx.peersInRange.filter((p) => p.id !== speaker.id);
+      return others.length === 0
+        ? { respond: true, reason: "only peer in range" }
+        : { respond: false, reason: `${others.length} other peer(s) in range` };
+    }
+
+    case "follow_target":
+      return ctx.followTarget && ctx.followTarget.toLowerCase() === speaker.name.toLowerCase()
+        ? { respond: true, reason: "follow target" }
+        : { respond: false, reason: "not the follow target" };
+  }
+}
+
+export function addressNames(ctx: Pick<PolicyContext, "agentName" | "aliases">): string[] {
+  return [ctx.agentName, ...ctx.aliases].filter((n): n is string => !!n && !!n.trim());
+}
+
+// Said before a name without being part of the request
+const GREETINGS = new Set(["hey", "hi", "ok", "okay", "yo"]);
+
+/**
+ * True if any of `names` appears in `text`, allowing for the misspellings
+ * speech-to-text tends to produce ("Hakoo" or "Hako" for "Haku"). Sound-alike
+ * spellings count anywhere; a name with its vowels misheard only counts where
+ * it's plainly being used to address someone: after a greeting, or set off
+ * by a comma ("Hako, follow me", "thanks, hako").
+ */
+export function isAddressed(text: string, names: string[]): boolean {
+  const words = splitWords(text);
+  return names.some((name) => words.some((_, i) => nameAt(words, i, name)));
+}
+
+/**
+ * Remove a leading address ("Hey Haku, follow me" -> "follow me") so voice
+ * commands can be matched on what's left.
+ */
+export function stripAddress(text: string, names: string[]): string {
+  const trimmed = text.trim();
+  const words = splitWords(trimmed);
+  const first = words.length > 1 && GREETINGS.has(words[0].word) ? 1 : 0;
+  for (const name of names) {
+    const count = tokenize(name).length;
+    if (count === 0 || words.length <= first + count) continue;
+    if (nameAt(words, first, name)) {
+      return words.slice(first + count).map((w) => w.raw).join("").trim();
+    }
+  }
+  return trimmed;
+}
+
+// Whether `name` is said starting at word `i`
+function nameAt(words: Word[], i: number, name: string): boolean {
+  const nameWords = tokenize(name);
+  const said = words.slice(i, i + nameWords.length);
+  if (nameWords.length === 0 || said.length < nameWords.length) return false;
+  if (said.every((w, j) => soundsAlike(w.word, nameWords[j]))) return true;
+
+  const greeted = i === 1 && GREETINGS.has(words[0].word);
+  const setOff = said[said.length - 1].comma || (i > 0 && words[i - 1].comma && i + said.length === words.length);
+  return (greeted || setOff) && said.every((w, j) => vowelSlip(w.word, nameWords[j]));
+}
+
+// A word with the punctuation after it, to spot a name set off by commas
+interface Word {
+  word: string;
+  // Followed by a comma
+  comma: boolean;
+  // As written, with the punctuation and space after it
+  raw: string;
+}
+
+function splitWords(text: string): Word[] {
+  return [...text.matchAll(/([A-Za-z0-9']+)([^A-Za-z0-9']*)/g)].map((m) => ({
+    word: m[1].toLowerCase(),
+    comma: m[2].includes(","),
+    raw: m[0],
+  }));
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(Boolean);
+}
+
+function soundsAlike(heard: string, name: string): boolean {
+  return heard === name || phonetic(heard) === phonetic(name);
+}
+
+// Same consonants in the same places, vowels possibly misheard: "hako" for "haku"
+function vowelSlip(heard: string, name: string): boolean {
+  const a = phonetic(heard);
+  const b = phonetic(name);
+  const consonants = (w: string) => w.replace(/[aeiouy]/g, "_");
+  return a.length === b.length && /[aeiouy]/.test(b) && consonants(a) === consonants(b);
+}
@@ -0,0 +1,105 @@
+/**
+ * Where to stand in a conversation: which way to face, which peers are
+ * talking together, and a free spot at the edge of their circle.
+ */
+
+import type { Point } from "./pathfinding.ts";
+
+export interface PlacedPeer extends Point {
+  id: string;
+  name: string;
+}
+
+export interface SpotOptions {
+  // The spot must be within this distance of every member
+  hearingRadius: number;
+  // Closest the spot may be to anyone
+  personalSpace: number;
+  // Peers outside the group, who mustn't be crowded either
+  others?: Point[];
+  walkable?: (p: Point) => boolean;
+}
+
+// Candidate angles tried around a group
+const SPOT_ANGLES = 36;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Angle (radians, as the daemon's `theta`) to face `to` from `from`.
+ */
+export function facing(from: Point, to: Point): number {
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+export function centroid(points: Point[]): Point {
+  const x = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const y = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  return { x, y };
+}
+
+/**
+ * Group peers who stand within `linkDistance` of one another, directly or
+ * through others in the group. Largest groups first; loners come out as
+ * groups of one.
+ */
+export function findGroups(peers: PlacedPeer[], linkDistance: number): PlacedPeer[][] {
+  const groups: PlacedPeer[][] = [];
+  const seen = new Set<string>();
+  for (const start of peers) {
+    if (seen.has(start.id)) continue;
+    seen.add(start.id);
+    const group = [start];
+    for (let i = 0; i < group.length; i++) {
+      for (const other of peers) {
+        if (!seen.has(other.id) && distance(group[i], other) <= linkDistance) {
+          seen.add(other.id);
+          group.push(other);
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return groups.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * A spot on the edge of a group's circle: in earshot of every member, no
+ * closer than `personalSpace` to anyone, in the widest gap between members
+ * and, among equally good gaps, nearest to `self`. Null if there is none.
+ */
+export function findGroupSpot(group: Point[], self: Point, options: SpotOptions): Point | null {
+  const center = centroid(group);
+  const spread = Math.max(...group.map((p) => distance(p, center)));
+  const crowd = [...group, ...(options.others ?? [])];
+
+  // Start on the circle the group already forms, then try closer in and further out
+  const baseRadius = Math.max(spread, options.personalSpace);
+  const radii = [baseRadius, baseRadius * 0.75, baseRadius * 1.25, baseRadius + options.personalSpace];
+
+  let best: { spot: Point; clearance: number; travel: number } | null = null;
+  for (const radius of radii) {
+    for (let i = 0; i < SPOT_ANGLES; i++) {
+      const angle = (i / SPOT_ANGLES) * 2 * Math.PI;
+      const spot = {
+        x: Math.round(center.x + Math.cos(angle) * radius),
+        y: Math.round(center.y + Math.sin(angle) * radius),
+      };
+      if (group.some((p) => distance(p, spot) > options.hearingRadius)) continue;
+      const clearance = Math.min(...crowd.map((p) => distance(p, spot)));
+      if (clearance < options.personalSpace) continue;
+      if (options.walkable && !options.walkable(spot)) continue;
+
+      const travel = distance(self, spot);
+      // Clearance decides, rounded so near-ties go to the shorter walk
+      const better = !best
+        || Math.round(clearance / 5) > Math.round(best.clearance / 5)
+        || (Math.round(clearance / 5) === Math.round(best.clearance / 5) && travel < best.travel);
+      if (better) best = { spot, clearance, travel };
+    }
+    if (best) break;
+  }
+  return best?.spot ?? null;
+}
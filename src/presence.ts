@@ -0,0 +1,167 @@
+/**
+ * Who is in the room and who is within earshot. Joins and leaves are
+ * reported as they happen; hearing-range changes only once they've held for
+ * the debounce time, so someone pacing at the edge of the radius doesn't
+ * flap in and out.
+ */
+
+import type { PeerInfo, PresenceEvent } from "./types.ts";
+
+export interface PresenceRecord {
+  id: string;
+  name: string;
+  // When the peer joined (or was first seen, for peers already there)
+  since: number;
+  lastSeen: number;
+  inRange: boolean;
+  // When the peer last came into range; null while out of range
+  inRangeSince: number | null;
+  // Pending range change and when it was first observed
+  candidate: boolean | null;
+  candidateSince: number;
+}
+
+export type PresenceEmit = (event: Omit<PresenceEvent, "room">) => void;
+
+export class PresenceTracker {
+  private records = new Map<string, PresenceRecord>();
+
+  constructor(
+    private debounceMs: number,
+    private emit: PresenceEmit,
+  ) {}
+
+  get(id: string): PresenceRecord | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Take a fresh peer list as-is: new peers are added and missing ones
+   * dropped without events. Used for the initial list and after reconnects.
+   */
+  sync(peers: Iterable<PeerInfo>, inRange: (peer: PeerInfo) => boolean, now = Date.now()): void {
+    const ids = new Set<string>();
+    for (const peer of peers) {
+      ids.add(peer.id);
+      const record = this.records.get(peer.id);
+      if (record) {
+        record.lastSeen = now;
+        continue;
+      }
+      const near = inRange(peer);
+      this.records.set(peer.id, this.newRecord(peer, near, now));
+    }
+    for (const id of this.records.keys()) {
+      if (!ids.has(id)) this.records.delete(id);
+    }
+  }
+
+  joined(peer: PeerInfo, now = Date.now()): void {
+    // Range is settled by the next update, through the usual debounce
+    this.records.set(peer.id, this.newRecord(peer, false, now));
+    this.emit({ type: "joined", peerId: peer.id, name: peer.name, time: now, distance: null });
+  }
+
+  left(id: string, now = Date.now()): void {
+    const record = this.records.get(id);
+    if (!record) return;
+    this.records.delete(id);
+    this.emit({ type: "left", peerId: id, name: record.name, time: now, distance: null, durationMs: now - record.since });
+  }
+
+  seen(id: string, now = Date.now()): void {
+    const record = this.records.get(id);
+    if (record) record.lastSeen = now;
+  }
+
+  /**
+   * Re-check who's within earshot and report range changes that have held
+   * for the debounce time.
+   */
+  update(distances: Map<string, number | null>, radius: number, now = Date.now()): void {
+    for (const record of this.records.values()) {
+      const distance = distances.get(record.id) ?? null;
+      // Unknown position: leave range state as it was
+      if (distance == null) continue;
+
+      const near = distance <= radius;
+      if (near === record.inRange) {
+        record.candidate = null;
+        continue;
+      }
+      if (record.candidate !== near) {
+        record.candidate = near;
+        record.candidateSince = now;
+      }
+      if (now - record.candidateSince < this.debounceMs) continue;
+
+      record.candidate = null;
+      record.inRange = near;
+      if (near) {
+        record.inRangeSince = now;
+        this.emit({ type: "entered_range", peerId: record.id, name: record.name, time: now, distance: Math.round(distance) });
+      } else {
+        const durationMs = now - (record.inRangeSince ?? now);
+        record.inRangeSince = null;
+        this.emit({ type: "left_range", peerId: record.id, name: record.name, time: now, distance: Math.round(distance), durationMs });
+      }
+    }
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  private newRecord(peer: PeerInfo, inRange: boolean, now: number): PresenceRecord {
+    return {
+      id: peer.id,
+      name: peer.name,
+      since: now,
+      lastSeen: now,
+      inRange,
+      inRangeSince: inRange ? now : null,
+      candidate: null,
+      candidateSince: now,
+    };
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * One-line description of a presence event, for tool output and prompts.
+ */
+export function describePresence(event: PresenceEvent): string {
+  const stayed = event.durationMs != null ? ` after ${formatDuration(event.durationMs)}` : "";
+  switch (event.type) {
+    case "joined":
+      return `${event.name} joined the room`;
+    case "left":
+      return `${event.name} left the room${stayed}`;
+    case "entered_range":
+      return `${event.name} came within earshot (${event.distance} away)`;
+    case "left_range":
+      return `${event.name} moved out of earshot${stayed}`;
+  }
+}
+
+// What the agent answers to say nothing on a turn nobody spoke in
+export const SILENT_REPLY = "NO_REPLY";
+
+/**
+ * The message for a turn taken because someone came or went rather than
+ * because anyone spoke. The agent may answer SILENT_REPLY to stay quiet.
+ */
+export function presencePrompt(events: PresenceEvent[]): string {
+  return [
+    "Nobody has said anything to you, but just now:",
+    ...events.map((e) => `- ${describePresence(e)}`),
+    `Say something if it suits the moment, or reply with just ${SILENT_REPLY} to stay quiet.`,
+  ].join("\n");
+}
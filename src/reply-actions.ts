@@ -0,0 +1,176 @@
+/**
+ * Actions the agent takes through its own replies. Directives like
+ * `[[follow Alice]]` sit between sentences; they're checked against the room
+ * and the speakers' permissions, then run in order with the speech around
+ * them. How each one went is reported back to the agent.
+ */
+
+import type { RamblyManager } from "./manager.ts";
+import type { AccessControl } from "./permissions.ts";
+import type { VoiceCommandRegistry } from "./voice-commands.ts";
+import type { Emote } from "./types.ts";
+import { EMOTES, isEmote } from "./emotes.ts";
+import { matchPeer } from "./fuzzy.ts";
+import { summarizeResult } from "./results.ts";
+
+export type ReplyAction =
+  | { action: "follow"; target: string }
+  | { action: "unfollow" }
+  | { action: "goto"; target: string }
+  | { action: "move"; x: number; y: number }
+  | { action: "emote"; emote: Emote }
+  | { action: "leave" };
+
+export type ReplyStep = { say: string } | { act: ReplyAction; directive: string };
+
+export interface ParsedReply {
+  steps: ReplyStep[];
+  // Directives that couldn't be read, and why
+  invalid: Array<{ directive: string; error: string }>;
+}
+
+export interface ReplyContext {
+  manager: RamblyManager;
+  room: string;
+  // Who the reply answers; an action needs every one of them to be allowed it.
+  // With nobody (a message sent on the channel, or a turn nobody spoke in),
+  // only actions open to everyone run.
+  speakers: Array<{ id: string; name: string }>;
+  // Without one, any action is allowed
+  access?: AccessControl;
+  // Actions take the permissions of the matching voice commands
+  commands: VoiceCommandRegistry;
+  followDistance: number;
+  // Speak a stretch of the reply; false if it didn't finish
+  say(text: string): Promise<boolean>;
+}
+
+/** Tells the agent how to write directives; sent with each prompt. */
+export const REPLY_ACTIONS_PROMPT =
+  "You can act in the room by writing directives in double brackets between sentences. They're done in order " +
+  "as you speak and aren't read aloud: [[follow NAME]], [[unfollow]], [[goto NAME]] (a person or a landmark), " +
+  `[[move X Y]], [[emote ${EMOTES.join("|")}]], [[leave]]. Only write one when you mean to do it now.`;
+
+const DIRECTIVE = /\[\[([^\]]*)\]\]/g;
+
+/**
+ * Split a reply into speech and actions, in the order they were written.
+ */
+export function parseReply(text: string): ParsedReply {
+  const steps: ReplyStep[] = [];
+  const invalid: ParsedReply["invalid"] = [];
+  let last = 0;
+  const sayUpTo = (end: number) => {
+    const said = text.slice(last, end).replace(/\s+/g, " ").trim();
+    if (said) steps.push({ say: said });
+  };
+
+  for (const m of text.matchAll(DIRECTIVE)) {
+    sayUpTo(m.index!);
+    last = m.index! + m[0].length;
+    const directive = m[1].replace(/\s+/g, " ").trim();
+    const parsed = parseDirective(directive);
+    if (typeof parsed === "string") invalid.push({ directive, error: parsed });
+    else steps.push({ act: parsed, directive });
+  }
+  sayUpTo(text.length);
+  return { steps, invalid };
+}
+
+// The action, or what's wrong with the directive
+function parseDirective(directive: string): ReplyAction | string {
+  const [verb = "", ...rest] = directive.split(" ");
+  const arg = rest.join(" ");
+  const name = verb.toLowerCase();
+  switch (name) {
+    case "follow":
+    case "goto":
+      return arg ? { action: name, target: arg } : `${name} needs a name`;
+    case "unfollow":
+      return { action: "unfollow" };
+    case "leave":
+      return { action: "leave" };
+    case "move": {
+      const [x, y] = arg.split(/[\s,]+/).map(Number);
+      return Number.isFinite(x) && Number.isFinite(y) && arg ? { action: "move", x, y } : "move needs x and y";
+    }
+    case "emote": {
+      const emote = arg.toLowerCase();
+      return isEmote(emote) ? { action: "emote", emote } : `Unknown emote "${arg}"; use one of ${EMOTES.join(", ")}`;
+    }
+    default:
+      return `Unknown action "${verb}"`;
+  }
+}
+
+/**
+ * Speak the reply and carry out its actions in order. Returns a line per
+ * action (and per unreadable directive) saying how it went.
+ */
+export async function performReply(reply: ParsedReply, ctx: ReplyContext): Promise<string[]> {
+  const reports = reply.invalid.map((i) => `[[${i.directive}]]: Not understood: ${i.error}.`);
+  let stopped: string | null = null;
+  for (const step of reply.steps) {
+    if (!stopped && !ctx.manager.getRooms().includes(ctx.room)) stopped = "you had left the room";
+    if ("say" in step) {
+      if (!stopped && !(await ctx.say(step.say))) stopped = "the speech before it didn't finish";
+      continue;
+    }
+    const outcome = stopped ? `Skipped; ${stopped}.` : await runAction(step.act, ctx);
+    reports.push(`[[${step.directive}]]: ${outcome}`);
+  }
+  return reports;
+}
+
+async function runAction(act: ReplyAction, ctx: ReplyContext): Promise<string> {
+  const { manager, room } = ctx;
+  switch (act.action) {
+    case "follow": {
+      const peer = matchPeer(act.target, manager.getPeers(room));
+      if (!peer) return notHere(act.target, ctx);
+      const asked = ctx.speakers.some((s) => s.id === peer.id);
+      return denied(asked ? "follow_me" : "follow_peer", ctx)
+        ?? summarizeResult("follow", await manager.follow(peer.name, room));
+    }
+    case "unfollow":
+      return denied("unfollow", ctx) ?? summarizeResult("unfollow", await manager.unfollow(room));
+    case "goto": {
+      const peer = matchPeer(act.target, manager.getPeers(room));
+      if (peer) {
+        return denied("go_to_peer", ctx)
+          ?? summarizeResult("move", await manager.approach(peer.name, ctx.followDistance, room));
+      }
+      const landmark = manager.findLandmark(room, act.target);
+      if (!landmark) return notHere(act.target, ctx);
+      return denied("go_to_landmark", ctx) ?? summarizeResult("goto", await manager.goto(landmark.name, room));
+    }
+    case "move":
+      return denied("move_direction", ctx) ?? summarizeResult("move", await manager.move(act.x, act.y, room));
+    case "emote":
+      return summarizeResult("emote", await manager.emote(act.emote, room));
+    case "leave":
+      return denied("leave", ctx) ?? summarizeResult("leave", await manager.leave(room));
+  }
+}
+
+// Why the action isn't allowed, or null if every speaker may ask for it
+function denied(command: string, ctx: ReplyContext): string | null {
+  if (!ctx.access) return null;
+  const fallback = ctx.commands.permission(command);
+  const required = ctx.access.required(command, fallback);
+  if (ctx.speakers.length === 0 && required !== "everyone") {
+    return `Not done: nobody here asked for that (needs ${required}).`;
+  }
+  for (const speaker of ctx.speakers) {
+    if (ctx.access.check(ctx.room, command, fallback, speaker) != null) {
+      return `Not done: ${speaker.name} isn't allowed to ask for that (needs ${required}).`;
+    }
+  }
+  return null;
+}
+
+function notHere(target: string, ctx: ReplyContext): string {
+  const names = ctx.manager.getPeers(ctx.room).map((p) => p.name);
+  const seen = names.length > 0 ? ` People here: ${names.join(", ")}.` : "";
+  return `Error: No one or nothing called "${target}" here.${seen}`;
+}
@@ -1,15 +1,40 @@
 /**
- * Rambly response generator — uses the embedded Pi agent for tool support.
+ * Rambly response generator — uses the embedded Pi agent for tool support,
+ * or the `openclaw agent` CLI as a fallback backend.
  */
 
 import crypto from "node:crypto";
+import { execFile } from "node:child_process";
 import { loadCoreAgentDeps, type CoreConfig } from "./core-bridge.ts";
+import { describePresence } from "./presence.ts";
+import { formatClock, renderPersona } from "./persona.ts";
+import { mapNameOf } from "./pathfinding.ts";
+import { REPLY_ACTIONS_PROMPT } from "./reply-actions.ts";
+import type { PresenceEvent, ResponseBackend, ResponseSettings } from "./types.ts";
+
+const CLI_TIMEOUT_MS = 30000;
 
 export type RamblyResponseParams = {
   coreConfig: CoreConfig;
   roomName: string;
   userMessage: string;
   userName: string;
+  // The agent's name in the room, used when its OpenClaw identity has none
+  agentName: string;
+  // Names of the peers in earshot
+  peers: string[];
+  // Agent, model and persona for the room
+  settings: ResponseSettings;
+  // Recent lines overheard in the room that weren't addressed to the agent
+  context?: Array<{ name: string; text: string }>;
+  // The room as a whole: position, who's nearby, recent conversation (see room-context.ts)
+  roomContext?: string | null;
+  // Who came and went since the agent last replied
+  presence?: PresenceEvent[];
+  // Tell the agent it can act through [[...]] directives
+  actions?: boolean;
+  // How the directives in its last reply went
+  actionResults?: string[];
 };
 
 export type RamblyResponseResult = {
@@ -23,7 +48,7 @@ export type RamblyResponseResult = {
 export async function generateRamblyResponse(
   params: RamblyResponseParams,
 ): Promise<RamblyResponseResult> {
-  const { coreConfig, roomName, userMessage, userName } = params;
+  const { coreConfig } = params;
 
   if (!coreConfig) {
     return { text: null, error: "Core config unavailable" };
@@ -39,9 +64,20 @@ export async function generateRamblyResponse(
     };
   }
 
-  const cfg = coreConfig;
+  try {
+    return await runEmbeddedResponse(deps, params);
+  } catch (err) {
+    return { text: null, error: String(err) };
+  }
+}
+
+async function runEmbeddedResponse(
+  deps: Awaited<ReturnType<typeof loadCoreAgentDeps>>,
+  params: RamblyResponseParams,
+): Promise<RamblyResponseResult> {
+  const { coreConfig: cfg, roomName, userMessage, userName, settings } = params;
   const sessionKey = `rambly:room:${roomName}`;
-  const agentId = "main";
+  const { agentId } = settings;
 
   const storePath = deps.resolveStorePath(cfg.session?.store, { agentId });
   const agentDir = deps.resolveAgentDir(cfg, agentId);
@@ -65,53 +101,148 @@ export async function generateRamblyResponse(
   const sessionId = sessionEntry.sessionId;
   const sessionFile = deps.resolveSessionFilePath(sessionId, sessionEntry, { agentId });
 
-  const modelRef = `${deps.DEFAULT_PROVIDER}/${deps.DEFAULT_MODEL}`;
+  const modelRef = settings.model || `${deps.DEFAULT_PROVIDER}/${deps.DEFAULT_MODEL}`;
   const slashIndex = modelRef.indexOf("/");
   const provider = slashIndex === -1 ? deps.DEFAULT_PROVIDER : modelRef.slice(0, slashIndex);
   const model = slashIndex === -1 ? modelRef : modelRef.slice(slashIndex + 1);
 
-  const thinkLevel = deps.resolveThinkingDefault({ cfg, provider, model });
+  const thinkLevel = settings.thinkingLevel || deps.resolveThinkingDefault({ cfg, provider, model });
   const identity = deps.resolveAgentIdentity(cfg, agentId);
-  const agentName = identity?.name?.trim() || "Haku";
+  const agentName = identity?.name?.trim() || params.agentName;
 
-  const extraSystemPrompt = `You are ${agentName}, in a Rambly spatial voice chat room called "${roomName}". Keep responses brief and conversational (1-3 sentences). Be natural and friendly. ${userName} is speaking to you.`;
+  let extraSystemPrompt = persona(params, agentName);
+  if (params.roomContext) {
+    extraSystemPrompt += `\n\nThe room right now:\n${params.roomContext}`;
+  }
+  if (params.actions) {
+    extraSystemPrompt += `\n\n${REPLY_ACTIONS_PROMPT}`;
+  }
+  const actionResults = formatActionResults(params.actionResults);
+  if (actionResults) {
+    extraSystemPrompt += `\n\nHow your last actions went:\n${actionResults}`;
+  }
+  const overheard = formatContext(params.context);
+  if (overheard) {
+    extraSystemPrompt += `\n\nOverheard nearby before this (not addressed to you):\n${overheard}`;
+  }
+  const presence = formatPresence(params.presence);
+  if (presence) {
+    extraSystemPrompt += `\n\nSince you last spoke:\n${presence}`;
+  }
 
   const timeoutMs = deps.resolveAgentTimeoutMs({ cfg });
   const runId = `rambly:${roomName}:${Date.now()}`;
 
-  try {
-    const result = await deps.runEmbeddedPiAgent({
-      sessionId,
-      sessionKey,
-      messageProvider: "rambly",
-      sessionFile,
-      workspaceDir,
-      config: cfg,
-      prompt: `[${userName}]: ${userMessage}`,
-      provider,
-      model,
-      thinkLevel,
-      verboseLevel: "off",
-      timeoutMs,
-      runId,
-      lane: "rambly",
-      extraSystemPrompt,
-      agentDir,
-    });
-
-    const texts = (result.payloads ?? [])
-      .filter((p) => p.text && !p.isError)
-      .map((p) => p.text?.trim())
-      .filter(Boolean);
-
-    const text = texts.join(" ") || null;
-
-    if (!text && result.meta?.aborted) {
-      return { text: null, error: "Response generation was aborted" };
-    }
-
-    return { text };
-  } catch (err) {
-    return { text: null, error: String(err) };
+  const result = await deps.runEmbeddedPiAgent({
+    sessionId,
+    sessionKey,
+    messageProvider: "rambly",
+    sessionFile,
+    workspaceDir,
+    config: cfg,
+    prompt: `[${userName}]: ${userMessage}`,
+    provider,
+    model,
+    thinkLevel,
+    verboseLevel: "off",
+    timeoutMs,
+    runId,
+    lane: "rambly",
+    extraSystemPrompt,
+    agentDir,
+  });
+
+  const texts = (result.payloads ?? [])
+    .filter((p) => p.text && !p.isError)
+    .map((p) => p.text?.trim())
+    .filter(Boolean);
+
+  const text = texts.join(" ") || null;
+
+  if (!text && result.meta?.aborted) {
+    return { text: null, error: "Response generation was aborted" };
+  }
+
+  return { text };
+}
+
+/**
+ * Generate a response by running `openclaw agent` as a child process. The
+ * prompt is passed as an argument, never through a shell.
+ */
+export function generateCliResponse(params: RamblyResponseParams): Promise<RamblyResponseResult> {
+  const { userMessage, userName, settings } = params;
+  let prompt = `${persona(params, params.agentName)}\n\n${userName} says: "${userMessage}"`;
+  if (params.roomContext) {
+    prompt += `\nThe room right now:\n${params.roomContext}`;
+  }
+  if (params.actions) {
+    prompt += `\n${REPLY_ACTIONS_PROMPT}`;
+  }
+  const actionResults = formatActionResults(params.actionResults);
+  if (actionResults) {
+    prompt += `\nHow your last actions went:\n${actionResults}`;
+  }
+  const overheard = formatContext(params.context);
+  if (overheard) {
+    prompt += `\nFor context, you overheard this beforehand:\n${overheard}`;
+  }
+  const presence = formatPresence(params.presence);
+  if (presence) {
+    prompt += `\nSince you last spoke:\n${presence}`;
   }
+
+  return new Promise((resolve) => {
+    execFile(
+      "openclaw",
+      [
+        "agent",
+        "--agent", settings.agentId,
+        "--message", prompt,
+        ...(settings.thinkingLevel ? ["--thinking", settings.thinkingLevel] : []),
+        "--no-deliver",
+      ],
+      { encoding: "utf8", timeout: CLI_TIMEOUT_MS },
+      (err, stdout) => {
+        if (err) {
+          resolve({ text: null, error: err.message });
+          return;
+        }
+        resolve({ text: stdout.trim() || null });
+      },
+    );
+  });
+}
+
+function persona(params: RamblyResponseParams, agentName: string): string {
+  return renderPersona(params.settings.persona, {
+    agent: agentName,
+    room: params.roomName,
+    map: mapNameOf(params.roomName),
+    speaker: params.userName,
+    peers: params.peers.join(", ") || "nobody",
+    time: formatClock(),
+  });
+}
+
+function formatContext(context: RamblyResponseParams["context"]): string {
+  return (context ?? []).map((c) => `${c.name}: ${c.text}`).join("\n");
+}
+
+function formatActionResults(results: RamblyResponseParams["actionResults"]): string {
+  return (results ?? []).map((r) => `- ${r}`).join("\n");
+}
+
+function formatPresence(events: RamblyResponseParams["presence"]): string {
+  return (events ?? []).map((e) => `- ${describePresence(e)}`).join("\n");
+}
+
+/**
+ * Generate a response with the configured backend.
+ */
+export function generateResponse(
+  backend: ResponseBackend,
+  params: RamblyResponseParams,
+): Promise<RamblyResponseResult> {
+  return backend === "cli" ? generateCliResponse(params) : generateRamblyResponse(params);
 }
@@ -0,0 +1,176 @@
+import type {
+  RamblyError,
+  RamblyErrorCode,
+  JoinResult,
+  LeaveResult,
+  SpeakResult,
+  StopSpeakingResult,
+  CharacterResult,
+  EmoteResult,
+  JoinGroupResult,
+  MoveResult,
+  GotoResult,
+  LandmarksResult,
+  SaveLandmarkResult,
+  HistoryResult,
+  HistoryEntry,
+  FollowResult,
+  UnfollowResult,
+  StatusResult,
+  RoomStatus,
+  ConnectionStatus,
+  BehaviorStatus,
+} from "./types.ts";
+import { describePresence, formatDuration } from "./presence.ts";
+
+export function fail(
+  code: RamblyErrorCode,
+  error: string,
+  extra: Omit<RamblyError, "ok" | "code" | "error"> = {},
+): RamblyError {
+  return { ok: false, code, error, ...extra };
+}
+
+// Result of any rambly_room action, keyed by action name
+export interface ActionResults {
+  join: JoinResult;
+  leave: LeaveResult;
+  speak: SpeakResult;
+  stop_speaking: StopSpeakingResult;
+  character: CharacterResult;
+  emote: EmoteResult;
+  move: MoveResult;
+  goto: GotoResult;
+  join_group: JoinGroupResult;
+  landmarks: LandmarksResult;
+  save_landmark: SaveLandmarkResult;
+  follow: FollowResult;
+  unfollow: UnfollowResult;
+  status: StatusResult;
+  history: HistoryResult;
+}
+
+type Ok<T> = Extract<T, { ok: true }>;
+
+const SUMMARIES: { [A in keyof ActionResults]: (result: Ok<ActionResults[A]>) => string } = {
+  join: (r) => (r.alreadyJoined ? `Already in room "${r.room}".` : `Joined room "${r.room}" as "${r.name}" (${r.character}).`),
+  leave: (r) => `Left room "${r.room}".`,
+  speak: (r) => {
+    const shortened = r.truncated ? " (shortened to fit the length limit)" : "";
+    if (!r.interrupted) return `Spoke in "${r.room}": "${r.spoken}"${shortened}`;
+    const said = r.spoken ? `Said "${r.spoken}" in "${r.room}"` : `Said nothing in "${r.room}"`;
+    return `${said} before being cut off. Not said: "${r.cutOff}"`;
+  },
+  stop_speaking: (r) => (r.stopped ? `Stopped talking in "${r.room}".` : `Wasn't talking in "${r.room}".`),
+  character: (r) =>
+    r.character === r.previous ? `Already appearing as ${r.character}.` : `Now appearing as ${r.character} (was ${r.previous}).`,
+  emote: (r) => `Played the ${r.emote} emote in "${r.room}".`,
+  move: (r) => (r.moved ? `Moved to (${r.x}, ${r.y}) in "${r.room}".` : `Already at (${r.x}, ${r.y}) in "${r.room}".`),
+  goto: (r) => (r.moved ? `Walked to ${r.landmark} at (${r.x}, ${r.y}).` : `Already at ${r.landmark}.`),
+  join_group: (r) =>
+    r.moved
+      ? `Joined ${r.members.join(", ")} at (${r.x}, ${r.y}).`
+      : `Already with ${r.members.join(", ")}; turned to face them.`,
+  landmarks: (r) =>
+    r.landmarks.length === 0
+      ? `No landmarks on map "${r.map}".`
+      : [`Landmarks on "${r.map}":`, ...r.landmarks.map((l) => `  ${l.name} at (${l.x}, ${l.y}) - ${l.distance} units away`)].join("\n"),
+  save_landmark: (r) =>
+    `${r.replaced ? "Updated" : "Saved"} landmark "${r.landmark.name}" at (${r.landmark.x}, ${r.landmark.y}) on "${r.map}".`,
+  follow: (r) => `Now following "${r.target}".`,
+  unfollow: (r) => (r.target ? `Stopped following "${r.target}".` : "Not following anyone."),
+  status: (r) => r.rooms.map(summarizeRoom).join("\n\n"),
+  history: (r) => {
+    if (r.total === 0) return "No matching transcripts.";
+    const last = r.offset + r.entries.length;
+    const more = last < r.total ? ` Use offset=${last} for older lines.` : "";
+    return [`Transcripts ${r.offset + 1}-${last} of ${r.total}, newest first.${more}`, ...r.entries.map(summarizeEntry)].join("\n");
+  },
+};
+
+/**
+ * Short human summary of an action result, shown next to the JSON in tool
+ * output.
+ */
+export function summarizeResult<A extends keyof ActionResults>(action: A, result: ActionResults[A]): string {
+  if (!result.ok) {
+    const peers = result.availablePeers?.length ? ` Available peers: ${result.availablePeers.join(", ")}.` : "";
+    const landmarks = result.availableLandmarks?.length ? ` Known landmarks: ${result.availableLandmarks.join(", ")}.` : "";
+    return `Error: ${result.error}${peers}${landmarks}`;
+  }
+  return SUMMARIES[action](result as Ok<ActionResults[A]>);
+}
+
+function summarizeRoom(status: RoomStatus): string {
+  const peers = status.peers.map((p) =>
+    p.distance == null
+      ? `  ${p.name} (position unknown)`
+      : `  ${p.name} at (${p.x}, ${p.y}) - ${p.distance} units away${p.inRange ? "  [in hearing range]" : ""}${
+          p.presentForMs != null ? `, here ${formatDuration(p.presentForMs)}` : ""
+        }`,
+  );
+
+  const lines = [
+    `Room: ${status.room}`,
+    `Connection: ${summarizeConnection(status.connection)}`,
+    `Position: (${status.x}, ${status.y})`,
+    `Hearing radius: ${status.hearingRadius}`,
+    `Character: ${status.character}`,
+    `Following: ${status.following || "nobody"}`,
+    `Nearest landmark: ${summarizeLandmark(status.nearestLandmark)}`,
+    ...(status.behaviors ? [`Behaviors: ${summarizeBehaviors(status.behaviors)}`] : []),
+    `Peers (${status.peers.length}):`,
+    ...peers,
+  ];
+
+  if (status.recentPresence.length > 0) {
+    lines.push(`Recent comings and goings:`);
+    for (const e of status.recentPresence) {
+      lines.push(`  ${describePresence(e)}`);
+    }
+  }
+
+  if (status.recentTranscripts.length > 0) {
+    lines.push(`Recent transcripts:`);
+    for (const t of status.recentTranscripts) {
+      lines.push(`  ${t.name}: "${t.text}"`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function summarizeEntry(e: HistoryEntry): string {
+  const when = new Date(e.time).toISOString().replace("T", " ").slice(0, 19);
+  const where = e.kind === "spoke" ? " (you)" : e.distance != null ? ` (${e.distance} away)` : "";
+  return `  [${when}] ${e.room} ${e.speakerName}${where}: "${e.text}"`;
+}
+
+function summarizeLandmark(nearest: RoomStatus["nearestLandmark"]): string {
+  if (!nearest) return "none";
+  return nearest.inside ? `${nearest.name} (here)` : `${nearest.name} (${nearest.distance} units away)`;
+}
+
+function summarizeBehaviors(b: BehaviorStatus): string {
+  const parts: string[] = [];
+  if (b.greet.enabled) parts.push(b.greet.lastGreeted ? `greeting (last: ${b.greet.lastGreeted.name})` : "greeting");
+  if (b.wander.enabled) {
+    parts.push(b.wander.walking ? "wandering now" : `wandering in ${formatDuration(b.wander.nextInMs ?? 0)}`);
+  }
+  if (b.autoLeave.enabled) {
+    parts.push(b.autoLeave.leavesInMs != null ? `leaving in ${formatDuration(b.autoLeave.leavesInMs)} if still empty` : "auto-leave when empty");
+  }
+  const list = parts.join(", ") || "none enabled";
+  return b.suspended ? `paused (${b.suspended}); ${list}` : list;
+}
+
+function summarizeConnection(connection: ConnectionStatus): string {
+  switch (connection.state) {
+    case "reconnecting":
+      return `reconnecting (attempt ${connection.attempt}/${connection.maxRetries}, last error: ${connection.lastError})`;
+    case "failed":
+      return `lost, gave up after ${connection.attempts} attempts (${connection.lastError})`;
+    default:
+      return connection.state;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * A compact picture of a room for the agent's prompt: where the agent is and
+ * what it's doing, who is around and how far away, and the recent
+ * conversation, its own lines included. Trimmed to a token budget.
+ */
+
+import { formatDuration } from "./presence.ts";
+import type { HistoryEntry } from "./types.ts";
+
+export interface RoomContextInput {
+  room: string;
+  position: { x: number; y: number };
+  hearingRadius: number;
+  following: string | null;
+  followState: "walking" | "arrived" | "waiting" | null;
+  nearestLandmark: { name: string; distance: number; inside: boolean } | null;
+  peers: Array<{ name: string; distance: number | null }>;
+  // Oldest first
+  transcript: HistoryEntry[];
+  now?: number;
+}
+
+// Rough size of a token in English text; close enough for a budget
+const CHARS_PER_TOKEN = 4;
+
+// Share of the budget the roster may use before the conversation gets the rest
+const ROSTER_SHARE = 0.3;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Describe the room in at most `budgetTokens` (roughly). The agent's own
+ * state always fits; nearby peers come next, nearest first; the rest goes to
+ * the latest lines of conversation.
+ */
+export function buildRoomContext(input: RoomContextInput, budgetTokens: number): string {
+  const now = input.now ?? Date.now();
+  const self = describeSelf(input);
+  let remaining = budgetTokens - estimateTokens(self);
+
+  const roster: string[] = [];
+  const peers = [...input.peers].sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  let rosterBudget = Math.min(remaining, Math.floor(budgetTokens * ROSTER_SHARE));
+  for (const [i, peer] of peers.entries()) {
+    const line = `- ${peer.name}, ${peer.distance == null ? "position unknown" : `${peer.distance} away`}${
+      peer.distance != null && peer.distance <= input.hearingRadius ? " (in earshot)" : ""
+    }`;
+    const cost = estimateTokens(line);
+    if (cost > rosterBudget) {
+      roster.push(`- and ${peers.length - i} more further off`);
+      break;
+    }
+    roster.push(line);
+    rosterBudget -= cost;
+    remaining -= cost;
+  }
+
+  const lines: string[] = [];
+  for (const entry of [...input.transcript].reverse()) {
+    const ago = formatDuration(Math.max(0, now - entry.time));
+    const speaker = entry.kind === "spoke" ? "You" : entry.speakerName;
+    const line = `[${ago} ago] ${speaker}: ${entry.text}`;
+    const cost = estimateTokens(line);
+    if (cost > remaining) break;
+    lines.unshift(line);
+    remaining -= cost;
+  }
+
+  const sections = [self];
+  sections.push(roster.length > 0 ? `People here:\n${roster.join("\n")}` : "Nobody else is here.");
+  if (lines.length > 0) sections.push(`Recent conversation:\n${lines.join("\n")}`);
+  return sections.join("\n");
+}
+
+function describeSelf(input: RoomContextInput): string {
+  const parts = [`You are in "${input.room}" at (${input.position.x}, ${input.position.y})`];
+  const landmark = input.nearestLandmark;
+  if (landmark) parts.push(landmark.inside ? `at ${landmark.name}` : `${landmark.distance} from ${landmark.name}`);
+  if (input.following) {
+    const state = input.followState === "waiting"
+      ? `waiting for ${input.following} to come back`
+      : `following ${input.following}${input.followState === "arrived" ? " (beside them)" : ""}`;
+    parts.push(state);
+  }
+  return `${parts.join(", ")}. You hear people within ${input.hearingRadius} units.`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Turn agent output into something TTS can read aloud: markdown stripped or
+ * verbalized, URLs cut to their domain, code blocks replaced with a short
+ * spoken note, abbreviations and units expanded, and overly long text cut
+ * at a sentence boundary.
+ */
+
+const CODE_PLACEHOLDER = "I'll skip the code here.";
+
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\be\.g\.,?/gi, "for example"],
+  [/\bi\.e\.,?/gi, "that is"],
+  [/\betc\.(?=\s+[A-Z]|\s*$)/g, "et cetera."],
+  [/\betc\./gi, "et cetera"],
+  [/\bvs\.?(?=\s)/gi, "versus"],
+  [/\bapprox\./gi, "approximately"],
+  [/\bMr\./g, "Mister"],
+  [/\bMrs\./g, "Missus"],
+  [/\bDr\.(?=\s+[A-Z])/g, "Doctor"],
+  [/\bw\/(?=\s)/gi, "with"],
+  [/\s&\s/g, " and "],
+];
+
+// Unit -> [singular, plural]
+const UNITS: Record<string, [string, string]> = {
+  "km/h": ["kilometer per hour", "kilometers per hour"],
+  mph: ["mile per hour", "miles per hour"],
+  km: ["kilometer", "kilometers"],
+  cm: ["centimeter", "centimeters"],
+  mm: ["millimeter", "millimeters"],
+  kg: ["kilogram", "kilograms"],
+  lb: ["pound", "pounds"],
+  lbs: ["pound", "pounds"],
+  ft: ["foot", "feet"],
+  ms: ["millisecond", "milliseconds"],
+  sec: ["second", "seconds"],
+  secs: ["second", "seconds"],
+  min: ["minute", "minutes"],
+  mins: ["minute", "minutes"],
+  hr: ["hour", "hours"],
+  hrs: ["hour", "hours"],
+  KB: ["kilobyte", "kilobytes"],
+  MB: ["megabyte", "megabytes"],
+  GB: ["gigabyte", "gigabytes"],
+  TB: ["terabyte", "terabytes"],
+  "°C": ["degree Celsius", "degrees Celsius"],
+  "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+  "%": ["percent", "percent"],
+};
+
+const UNIT_PATTERN = new RegExp(
+  `(\\d+(?:\\.\\d+)?)\\s?(${Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map((u) => u.replace(/[/]/g, "\\/"))
+    .join("|")})(?![\\w/])`,
+  "g",
+);
+
+export interface SpeechTextOptions {
+  // Longest text to speak, in characters; 0 for no limit
+  maxLength: number;
+}
+
+export interface SpeechText {
+  text: string;
+  // True when the text was cut to fit maxLength
+  truncated: boolean;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    // Fenced code blocks
+    .replace(/```[\s\S]*?(?:```|$)/g, `\n${CODE_PLACEHOLDER}\n`)
+    .replace(/`([^`\n]+)`/g, "$1")
+    // Images and links keep their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    // Headings, quotes, rules
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1.")
+    .replace(/^[ \t]*>[ \t]?/gm, "")
+    .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, "")
+    // Table separator rows, then cell borders
+    .replace(/^[ \t]*\|?[ \t]*:?-{2,}:?[ \t]*(?:\|[ \t]*:?-{2,}:?[ \t]*)*\|?[ \t]*$/gm, "")
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, row: string) => row.split("|").map((c) => c.trim()).join(", "))
+    // List markers
+    .replace(/^[ \t]*(?:[-*+•]|\d+[.)])[ \t]+/gm, "")
+    // Emphasis
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(?<![\w*])\*(?!\s)(.+?)(?<!\s)\*(?!\w)/g, "$1")
+    .replace(/(?<![\w_])_(?!\s)(.+?)(?<!\s)_(?![\w_])/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1");
+}
+
+function shortenUrls(text: string): string {
+  // Trailing punctuation belongs to the sentence, not the URL
+  return text.replace(/\b(?:https?:\/\/|www\.)[^\s<>()]*[^\s<>().,!?;:'"]/gi, (url) => {
+    const host = url.replace(/^https?:\/\//i, "").split(/[/?#:]/)[0];
+    return host.replace(/^www\./i, "");
+  });
+}
+
+function stripEmoji(text: string): string {
+  return text.replace(/[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u{FE0F}\u{200D}\u{20E3}]/gu, "");
+}
+
+function expandAbbreviations(text: string): string {
+  let out = text;
+  for (const [pattern, spoken] of ABBREVIATIONS) out = out.replace(pattern, spoken);
+  return out.replace(UNIT_PATTERN, (_, amount: string, unit: string) => {
+    const [one, many] = UNITS[unit];
+    return `${amount} ${Number(amount) === 1 ? one : many}`;
+  });
+}
+
+// Each line becomes (at least) a sentence, so list items don't run together
+function joinLines(text: string): string {
+  const lines = text
+    .split(/\n+/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => /[\p{L}\p{N}]/u.test(line));
+  if (lines.length <= 1) return lines.join("");
+  return lines.map((line) => (/[.!?…:;,]$/.test(line) ? line : `${line}.`)).join(" ");
+}
+
+function truncate(text: string, maxLength: number): SpeechText {
+  if (maxLength <= 0 || text.length <= maxLength) return { text, truncated: false };
+  const head = text.slice(0, maxLength + 1);
+  // Prefer the last full sentence, unless that throws away most of the text
+  const sentenceEnd = Math.max(...[". ", "! ", "? "].map((p) => head.lastIndexOf(p)));
+  if (sentenceEnd >= maxLength / 2) {
+    return { text: head.slice(0, sentenceEnd + 1), truncated: true };
+  }
+  const wordEnd = head.lastIndexOf(" ");
+  const cut = head.slice(0, wordEnd > 0 ? wordEnd : maxLength).replace(/[\s,;:.-]+$/, "");
+  return { text: `${cut}...`, truncated: true };
+}
+
+/**
+ * Make text safe and pleasant to read aloud.
+ */
+export function normalizeForSpeech(text: string, options: SpeechTextOptions): SpeechText {
+  let out = stripMarkdown(text.replace(/\r\n?/g, "\n"));
+  out = shortenUrls(out);
+  out = stripEmoji(out);
+  out = joinLines(out);
+  out = expandAbbreviations(out);
+  out = out.replace(/\s+([.,!?;:])/g, "$1").replace(/\s+/g, " ").trim();
+  return truncate(out, options.maxLength);
+}
@@ -0,0 +1,140 @@
+/**
+ * Per-room speech queue. Text is split into sentences and played one chunk
+ * at a time, so overlapping `speak` calls take turns instead of racing in the
+ * daemon, and a long reply can be cut short between (or during) sentences.
+ */
+
+// Longer sentences are split again at commas and semicolons
+const MAX_CHUNK_LENGTH = 200;
+// Shorter pieces are folded into the next one so TTS doesn't sound choppy
+const MIN_CHUNK_LENGTH = 12;
+
+// Periods after these don't end a sentence
+const ABBREVIATIONS = /\b(?:mr|mrs|ms|dr|st|vs|etc|e\.g|i\.e)\.$/i;
+
+export interface SpeechOutcome {
+  // Chunks that played in full
+  spoken: string[];
+  // Chunks cut off mid-way or never started
+  cutOff: string[];
+}
+
+// Plays one chunk; `interrupted` is true when playback was stopped part-way
+export type PlayChunk = (text: string) => Promise<{ interrupted: boolean }>;
+
+interface SpeechJob {
+  chunks: string[];
+  spoken: string[];
+  cancelled: boolean;
+  resolve: (outcome: SpeechOutcome) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Split text into sentence-sized chunks for TTS.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let current = "";
+  for (const part of text.trim().split(/(?<=[.!?…])\s+/)) {
+    current = current ? `${current} ${part}` : part;
+    if (!ABBREVIATIONS.test(current)) {
+      sentences.push(current);
+      current = "";
+    }
+  }
+  if (current) sentences.push(current);
+
+  const chunks: string[] = [];
+  for (const sentence of sentences.flatMap(splitLong)) {
+    const last = chunks[chunks.length - 1];
+    if (last != null && last.length < MIN_CHUNK_LENGTH) {
+      chunks[chunks.length - 1] = `${last} ${sentence}`;
+    } else {
+      chunks.push(sentence);
+    }
+  }
+  return chunks.filter(Boolean);
+}
+
+function splitLong(sentence: string): string[] {
+  if (sentence.length <= MAX_CHUNK_LENGTH) return [sentence];
+  const pieces: string[] = [];
+  let current = "";
+  for (const clause of sentence.split(/(?<=[,;:])\s+/)) {
+    if (current && current.length + clause.length + 1 > MAX_CHUNK_LENGTH) {
+      pieces.push(current);
+      current = clause;
+    } else {
+      current = current ? `${current} ${clause}` : clause;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+export class SpeechQueue {
+  private jobs: SpeechJob[] = [];
+  private current: SpeechJob | null = null;
+  private playing = false;
+
+  constructor(
+    private play: PlayChunk,
+    // Stops the chunk that's playing right now
+    private stopPlayback: () => Promise<unknown>,
+  ) {}
+
+  /** True while something is playing or waiting to play. */
+  get active(): boolean {
+    return this.current != null || this.jobs.length > 0;
+  }
+
+  /**
+   * Queue text to be spoken after anything already queued. Resolves with
+   * what was said and what was cut off once this text is done.
+   */
+  say(text: string): Promise<SpeechOutcome> {
+    return new Promise((resolve, reject) => {
+      this.jobs.push({ chunks: splitSentences(text), spoken: [], cancelled: false, resolve, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Cut off the current speech and drop everything queued behind it.
+   * Returns true if there was anything to stop.
+   */
+  interrupt(): boolean {
+    const hadSpeech = this.active;
+    for (const job of this.jobs.splice(0)) {
+      job.resolve({ spoken: [], cutOff: job.chunks });
+    }
+    if (this.current) {
+      this.current.cancelled = true;
+      if (this.playing) this.stopPlayback().catch(() => {});
+    }
+    return hadSpeech;
+  }
+
+  private async drain() {
+    if (this.current) return;
+    while (this.jobs.length > 0) {
+      const job = (this.current = this.jobs.shift()!);
+      try {
+        for (const chunk of job.chunks) {
+          if (job.cancelled) break;
+          this.playing = true;
+          const { interrupted } = await this.play(chunk);
+          this.playing = false;
+          if (!interrupted) job.spoken.push(chunk);
+          if (interrupted || job.cancelled) break;
+        }
+        job.resolve({ spoken: job.spoken, cutOff: job.chunks.slice(job.spoken.length) });
+      } catch (err: any) {
+        this.playing = false;
+        job.reject(err);
+      }
+      this.current = null;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { EventEmitter } from "node:events";
+import { RamblyDaemon } from "./daemon.ts";
+
+export type SpawnOptions = { name: string; command: string; voice?: string; character?: string };
+
+export interface ReconnectOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type SupervisorStatus = "starting" | "running" | "reconnecting" | "failed" | "stopped";
+
+/**
+ * Keeps a room's daemon alive. After the first successful join, any exit we
+ * didn't ask for triggers a respawn with exponential backoff until
+ * `maxRetries` consecutive attempts have failed.
+ *
+ * Emits:
+ * - `reconnecting` ({ attempt, delayMs, code }) before each respawn attempt
+ * - `reconnected` ({ attempts }) once the daemon has rejoined
+ * - `gave_up` ({ attempts, error }) when the retry cap is hit
+ */
+export class DaemonSupervisor extends EventEmitter {
+  readonly daemon = new RamblyDaemon();
+  private _status: SupervisorStatus = "starting";
+  private _attempts = 0;
+  private _lastError: string | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private room: string,
+    private spawnOpts: SpawnOptions,
+    private reconnect: ReconnectOptions,
+  ) {
+    super();
+    this.daemon.on("exit", (code: number | null) => this.handleExit(code));
+    // Daemon error events are informational; keep the last one for status
+    this.daemon.on("error", (err: Error) => {
+      this._lastError = err.message;
+    });
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get attempts() {
+    return this._attempts;
+  }
+
+  get lastError() {
+    return this._lastError;
+  }
+
+  async start(): Promise<void> {
+    await this.daemon.spawn(this.room, this.spawnOpts);
+    this._status = "running";
+  }
+
+  stop(): void {
+    if (this._status === "stopped") return;
+    this._status = "stopped";
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.daemon.kill();
+  }
+
+  private handleExit(code: number | null) {
+    // Only unexpected exits of a joined daemon are retried
+    if (this._status !== "running") return;
+    this._lastError = `Daemon exited with code ${code}`;
+    this.scheduleRetry(code);
+  }
+
+  private scheduleRetry(code: number | null) {
+    if (this._attempts >= this.reconnect.maxRetries) {
+      this._status = "failed";
+      this.emit("gave_up", { attempts: this._attempts, error: this._lastError });
+      return;
+    }
+
+    this._status = "reconnecting";
+    this._attempts++;
+    const delayMs = Math.min(
+      this.reconnect.baseDelayMs * 2 ** (this._attempts - 1),
+      this.reconnect.maxDelayMs,
+    );
+    this.emit("reconnecting", { attempt: this._attempts, delayMs, code });
+
+    this.retryTimer = setTimeout(async () => {
+      this.retryTimer = null;
+      if (this._status !== "reconnecting") return;
+      try {
+        await this.daemon.spawn(this.room, this.spawnOpts);
+        if (this._status !== "reconnecting") return;
+        const attempts = this._attempts;
+        this._attempts = 0;
+        this._status = "running";
+        this.emit("reconnected", { attempts });
+      } catch (err: any) {
+        this._lastError = err.message;
+        if (this._status === "reconnecting") {
+          this.scheduleRetry(null);
+        }
+      }
+    }, delayMs);
+  }
+}
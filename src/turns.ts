@@ -0,0 +1,129 @@
+export interface Utterance {
+  from: string;
+  name: string;
+  text: string;
+  distance: number;
+  time: number;
+}
+
+export interface TurnOptions {
+  // Most utterances held while waiting; the oldest are dropped beyond this
+  maxQueue: number;
+  // Quiet period after the last utterance before taking a turn
+  responseDelayMs: number;
+  // Fragments from the same speaker closer together than this are merged
+  mergeWindowMs: number;
+}
+
+// `context` holds what was overheard but not meant for the agent
+export type TurnHandler = (utterances: Utterance[], context: Utterance[]) => Promise<void>;
+
+/**
+ * Conversation turn-taking for one room. Utterances are queued rather than
+ * dropped while a reply is in flight, and the next turn hands everything said
+ * since the previous turn to the handler in one batch.
+ */
+export class TurnManager {
+  private queue: Utterance[] = [];
+  private context: Utterance[] = [];
+  private responding = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  // A turn was asked for without anything being said
+  private nudged = false;
+
+  constructor(
+    private handler: TurnHandler,
+    private opts: TurnOptions,
+  ) {}
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  get busy(): boolean {
+    return this.responding;
+  }
+
+  push(utterance: Utterance): void {
+    if (this.closed) return;
+
+    const last = this.queue[this.queue.length - 1];
+    if (last && last.from === utterance.from && utterance.time - last.time <= this.opts.mergeWindowMs) {
+      last.text = `${last.text} ${utterance.text}`;
+      last.time = utterance.time;
+      last.distance = utterance.distance;
+    } else {
+      this.queue.push({ ...utterance });
+      while (this.queue.length > this.opts.maxQueue) {
+        this.queue.shift();
+      }
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Keep an utterance as context for the next turn without asking for one.
+   */
+  remember(utterance: Utterance): void {
+    if (this.closed) return;
+    this.context.push({ ...utterance });
+    while (this.context.length > this.opts.maxQueue) {
+      this.context.shift();
+    }
+  }
+
+  /**
+   * Ask for a turn though nobody spoke, e.g. because someone arrived. The
+   * handler gets an empty batch unless speech comes in first.
+   */
+  nudge(): void {
+    if (this.closed) return;
+    this.nudged = true;
+    this.schedule();
+  }
+
+  /**
+   * Drop anything queued and stop taking turns.
+   */
+  close(): void {
+    this.closed = true;
+    this.nudged = false;
+    this.queue = [];
+    this.context = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    // A turn in flight picks the queue up when it finishes
+    if (this.responding) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.takeTurn();
+    }, this.opts.responseDelayMs);
+  }
+
+  private async takeTurn() {
+    if (this.responding || this.closed || (this.queue.length === 0 && !this.nudged)) return;
+
+    const batch = this.queue;
+    const context = this.context;
+    this.queue = [];
+    this.context = [];
+    this.nudged = false;
+    this.responding = true;
+    try {
+      await this.handler(batch, context);
+    } finally {
+      this.responding = false;
+      if (this.queue.length > 0 || this.nudged) {
+        this.schedule();
+      }
+    }
+  }
+}
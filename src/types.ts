@@ -4,6 +4,11 @@ export type DaemonCommand =
   | { action: "move"; x: number; y: number; theta?: number; step?: number }
   | { action: "peers" }
   | { action: "status" }
+  // Stop the speech that's playing; its `spoke` comes back with `interrupted`
+  | { action: "stop" }
+  // Switch the sprite the agent appears as
+  | { action: "character"; character: string }
+  | { action: "emote"; emote: Emote }
   | { action: "leave" };
 
 // Daemon events (stdout)
@@ -13,12 +18,36 @@ export type DaemonEvent =
   | { event: "peer_join"; id: string; name: string; position?: { x: number; y: number } }
   | { event: "peer_leave"; id: string; name?: string }
   | { event: "peer_moved"; id: string; name: string; position?: { x: number; y: number } }
-  | { event: "spoke"; text?: string }
+  | { event: "spoke"; text?: string; interrupted?: boolean }
+  | { event: "stopped" }
+  | { event: "character"; character: string }
+  | { event: "emoted"; emote: Emote }
   | { event: "moved"; x: number; y: number }
   | { event: "peers"; peers: PeerInfo[] }
   | { event: "status"; room: string; position: { x: number; y: number }; peers: PeerInfo[] }
   | { event: "left" }
-  | { event: "error"; message: string };
+  // `action` names the command that failed, when the daemon knows it
+  | { event: "error"; message: string; action?: DaemonCommand["action"] };
+
+// Event the daemon emits once it has carried out a command
+export interface DaemonResponseEvents {
+  speak: "spoke";
+  move: "moved";
+  peers: "peers";
+  status: "status";
+  stop: "stopped";
+  character: "character";
+  emote: "emoted";
+  leave: "left";
+}
+
+export type DaemonResponse<C extends DaemonCommand> = Extract<
+  DaemonEvent,
+  { event: DaemonResponseEvents[C["action"]] }
+>;
+
+// Animations the agent's sprite can play
+export type Emote = "wave" | "nod" | "laugh" | "shrug" | "clap";
 
 export interface PeerInfo {
   id: string;
@@ -31,27 +60,314 @@ export interface RamblyState {
   room: string | null;
   peerId: string | null;
   agentName: string | null;
+  character: string;
   position: { x: number; y: number };
   peers: Map<string, PeerInfo>;
+  // Name of the peer being followed; they're tracked by followTargetId, with
+  // the name as a fallback for when they rejoin under a new id
   followTarget: string | null;
+  followTargetId: string | null;
+  // When the target was last missing from the room, while waiting for them to come back
+  followLostAt: number | null;
+  // Within followDistance of the target and stopped
+  followArrived: boolean;
   followBreadcrumbs: Array<{ x: number; y: number }>;
   pendingTranscripts: Array<{ name: string; text: string; time: number }>;
 }
 
+// Settings that can differ per room or map, resolved when a room is joined
+export type RoomOverrides = Partial<
+  Pick<
+    RamblyPluginConfig,
+    | "hearingRadius" | "voice" | "defaultName" | "defaultCharacter" | "responsePolicy" | "bargeIn"
+    | "agentId" | "model" | "thinkingLevel" | "persona" | "channelSessionKey" | "maxSpokenLength"
+    | "followStepSize"
+  >
+>;
+
 export interface RamblyPluginConfig {
   hearingRadius: number;
   followDistance: number;
   followStepSize: number;
   daemonCommand: string;
   defaultName: string;
+  // Sprite character to appear as
+  defaultCharacter: string;
   voice: string;
+  reconnectMaxRetries: number;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+  responseBackend: ResponseBackend;
+  turnMaxQueue: number;
+  turnResponseDelayMs: number;
+  turnMergeWindowMs: number;
+  responsePolicy: ResponsePolicyMode;
+  wakeWords: string[];
+  // Directory of per-map walkability and landmark files; "" uses the bundled maps/ dir
+  mapsDir: string;
+  // Directory landmarks saved at runtime go to; "" uses ~/.openclaw/rambly/landmarks
+  landmarksDir: string;
+  // Directory of per-room transcript logs; "" uses ~/.openclaw/rambly/history
+  historyDir: string;
+  // Newest log entries kept per room; 0 keeps everything
+  historyMaxEntries: number;
+  // Log entries older than this are dropped; 0 keeps everything
+  historyMaxAgeDays: number;
+  // How long a hearing-range change must hold before it's reported
+  presenceDebounceMs: number;
+  // Give the agent a turn, which it may pass on, when someone comes or goes
+  reactToPresence: boolean;
+  // Opt-in behaviors. All are suspended while following or in conversation.
+  // Greet peers coming into hearing range, at most once per cooldown each
+  greetOnArrival: boolean;
+  greetCooldownMs: number;
+  // "{name}" is replaced with the peer's name
+  greetMessage: string;
+  // Stroll around within wanderRadius of the join spot when nobody is in range
+  idleWander: boolean;
+  wanderIntervalMs: number;
+  wanderRadius: number;
+  // Leave once the room has been empty this long; 0 never leaves
+  autoLeaveAfterMs: number;
+  // A conversation counts as active until this long after the last line heard or said
+  conversationIdleMs: number;
+  // Stop talking when someone nearby starts speaking
+  bargeIn: boolean;
+  // Per-room settings, keyed by full room name or by map; a room's entry wins
+  rooms: Record<string, RoomOverrides>;
+  // Longest reply spoken, in characters, after cleanup for TTS; 0 for no limit
+  maxSpokenLength: number;
+  // Peers allowed every voice command: names, or "id:<peerId>"
+  owners: string[];
+  // Peers allowed "trusted" voice commands, same format as owners
+  trusted: string[];
+  // Tier needed per voice command (by intent name), overriding the built-in one
+  commandPermissions: Record<string, PermissionTier>;
+  // Name -> peer ids allowed to use it; owner and trusted names listed here
+  // only count when spoken from one of these ids
+  pinnedPeerIds: Record<string, string[]>;
+  // Largest step per follow tick, when catching up with a fast or distant target
+  followMaxStepSize: number;
+  // How long to wait for a follow target who left to come back before giving up
+  followGraceMs: number;
+  // Said when giving up on a follow target; {name} is their name, "" says nothing
+  followLostMessage: string;
+  // Turn to face whoever is talking
+  faceSpeaker: boolean;
+  // Closest the agent stands to anyone when joining a group
+  personalSpace: number;
+  // Peers this close to each other (directly or through others) count as one group
+  groupLinkDistance: number;
+  // Words or phrases in a reply that play an emote while it's spoken, e.g. { "haha": "laugh" }
+  emoteCues: Record<string, Emote>;
+  // Rough token budget for the room context sent with each prompt; 0 leaves it out
+  contextTokenBudget: number;
+  // Let the agent act through [[...]] directives in its replies
+  replyActions: boolean;
+  // Session room speech goes to with the channel backend; "" for the agent's main session
+  channelSessionKey: string;
+  // OpenClaw agent that replies in rooms
+  agentId: string;
+  // provider/model for replies; "" uses OpenClaw's default
+  model: string;
+  // Thinking level for replies; "" uses the model's default
+  thinkingLevel: ThinkingLevel;
+  // Persona prompt template; see persona.ts for its variables
+  persona: string;
+}
+
+// What a room's replies are generated with
+export type ResponseSettings = Pick<RamblyPluginConfig, "agentId" | "model" | "thinkingLevel" | "persona">;
+
+// When the agent replies to what it hears:
+// - "always": every transcript in hearing range
+// - "addressed": only when its name (or a wake word) is said
+// - "sole_peer": only when the speaker is the only peer in hearing range
+// - "follow_target": only when the speaker is the peer it is following
+export type ResponsePolicyMode = "always" | "addressed" | "sole_peer" | "follow_target";
+
+// How hard the model thinks before replying; "" leaves it to the model
+export type ThinkingLevel = "" | "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
+
+// Who may give a voice command: anyone, trusted peers (owners included), or owners only
+export type PermissionTier = "everyone" | "trusted" | "owner";
+
+// "embedded" runs the agent in-process; "cli" runs `openclaw agent`; "channel"
+// sends room speech into an agent session as messages on the Rambly channel
+export type ResponseBackend = "embedded" | "cli" | "channel";
+
+export interface RamblyLogger {
+  info(msg: string): void;
+  warn?(msg: string): void;
+  error(msg: string): void;
+}
+
+
+// --- Action results ---
+
+export type RamblyErrorCode =
+  | "not_connected"
+  | "room_required"
+  | "invalid_room"
+  | "reconnecting"
+  | "connection_lost"
+  | "join_failed"
+  | "peer_not_found"
+  | "position_unknown"
+  | "daemon_error"
+  | "unreachable"
+  | "landmark_not_found"
+  | "storage_error"
+  | "interrupted"
+  | "no_group"
+  | "invalid_params";
+
+export interface RamblyError {
+  ok: false;
+  code: RamblyErrorCode;
+  error: string;
+  room?: string;
+  // Names of the peers that are in the room, for peer_not_found
+  availablePeers?: string[];
+  // Landmarks on the room's map, for landmark_not_found
+  availableLandmarks?: string[];
+}
+
+export type RamblyResult<T> = ({ ok: true } & T) | RamblyError;
+
+export type JoinResult = RamblyResult<{
+  room: string;
+  name: string;
+  character: string;
+  x: number;
+  y: number;
+  alreadyJoined: boolean;
+}>;
+
+export type LeaveResult = RamblyResult<{ room: string }>;
+
+// `spoken` is what was actually said, after cleanup for TTS; `cutOff` is what a
+// barge-in or stop cut short; `truncated` is true if the text was over maxSpokenLength
+export type SpeakResult = RamblyResult<{
+  room: string;
+  text: string;
+  spoken: string;
+  cutOff: string;
+  interrupted: boolean;
+  truncated: boolean;
+}>;
+
+// `stopped` is false when nothing was being said
+export type StopSpeakingResult = RamblyResult<{ room: string; stopped: boolean }>;
+
+// `previous` is the sprite the agent had before
+export type CharacterResult = RamblyResult<{ room: string; character: string; previous: string }>;
+
+export type EmoteResult = RamblyResult<{ room: string; emote: Emote }>;
+
+// `moved` is false when the agent was already where it was asked to go
+export type MoveResult = RamblyResult<{ room: string; x: number; y: number; moved: boolean }>;
+
+// `members` are the peers in the group the agent joined
+export type JoinGroupResult = RamblyResult<{ room: string; x: number; y: number; members: string[]; moved: boolean }>;
+
+export type FollowResult = RamblyResult<{ room: string; target: string; x: number | null; y: number | null }>;
+
+// `target` is who was being followed, or null if nobody was
+export type UnfollowResult = RamblyResult<{ room: string; target: string | null }>;
+
+// Someone joined or left the room, or came into or out of hearing range
+export interface PresenceEvent {
+  type: "joined" | "left" | "entered_range" | "left_range";
+  room: string;
+  peerId: string;
+  name: string;
+  time: number;
+  // Distance from the agent for range changes
+  distance: number | null;
+  // For left / left_range: how long they'd been in the room / in range
+  durationMs?: number;
+}
+
+// One line in a room's transcript log: something heard, or something the agent said
+export interface HistoryEntry {
+  time: number;
+  room: string;
+  kind: "heard" | "spoke";
+  speakerId: string | null;
+  speakerName: string;
+  text: string;
+  // Speaker position, when known
+  x: number | null;
+  y: number | null;
+  // Distance from the agent; 0 for its own speech
+  distance: number | null;
+}
+
+// `total` counts every match; `entries` is the page at `offset`, newest first
+export type HistoryResult = RamblyResult<{ entries: HistoryEntry[]; total: number; offset: number; limit: number }>;
+
+// A named point on a map; with a radius it's an area
+export interface Landmark {
+  name: string;
+  x: number;
+  y: number;
+  radius?: number;
+  aliases?: string[];
+}
+
+export type LandmarksResult = RamblyResult<{ room: string; map: string; landmarks: Array<Landmark & { distance: number }> }>;
+
+export type GotoResult = RamblyResult<{ room: string; landmark: string; x: number; y: number; moved: boolean }>;
+
+// `replaced` is true when a landmark with the same name was overwritten
+export type SaveLandmarkResult = RamblyResult<{ room: string; map: string; landmark: Landmark; replaced: boolean }>;
+
+export interface PeerStatus {
+  id: string;
+  name: string;
+  x: number | null;
+  y: number | null;
+  distance: number | null;
+  inRange: boolean;
+  // Debounced presence: ms in the room, ms within earshot (null if not), last update
+  presentForMs: number | null;
+  inRangeForMs: number | null;
+  lastSeen: number | null;
+}
+
+export type ConnectionStatus =
+  | { state: "connected" }
+  | { state: "starting" | "stopped" }
+  | { state: "reconnecting"; attempt: number; maxRetries: number; lastError: string | null }
+  | { state: "failed"; attempts: number; lastError: string | null };
+
+// What the behavior engine is doing in a room
+export interface BehaviorStatus {
+  // Why behaviors are paused, if they are
+  suspended: "following" | "conversation" | null;
+  greet: { enabled: boolean; lastGreeted: { name: string; time: number } | null };
+  wander: { enabled: boolean; walking: boolean; nextInMs: number | null };
+  autoLeave: { enabled: boolean; emptyForMs: number | null; leavesInMs: number | null };
+}
+
+export interface RoomStatus {
+  room: string;
+  connection: ConnectionStatus;
+  x: number;
+  y: number;
+  hearingRadius: number;
+  character: string;
+  following: string | null;
+  // "waiting" while the target is out of the room, within the grace time
+  followState: "walking" | "arrived" | "waiting" | null;
+  // Closest landmark on the map; distance is to the edge of an area
+  nearestLandmark: { name: string; distance: number; inside: boolean } | null;
+  peers: PeerStatus[];
+  recentTranscripts: Array<{ name: string; text: string; time: number }>;
+  recentPresence: PresenceEvent[];
+  // null when no behaviors are running
+  behaviors: BehaviorStatus | null;
 }
 
-export const DEFAULT_CONFIG: RamblyPluginConfig = {
-  hearingRadius: 150,
-  followDistance: 40,
-  followStepSize: 20,
-  daemonCommand: "npx tsx /home/dguttman/play/web/rambly/.worktrees/cli-client/cli/bin/rambly-client.ts",
-  defaultName: "Agent",
-  voice: "nova",
-};
+export type StatusResult = RamblyResult<{ rooms: RoomStatus[] }>;
@@ -0,0 +1,327 @@
+import type { RamblyManager } from "./manager.ts";
+import type { Landmark, PeerInfo, PermissionTier } from "./types.ts";
+import type { AccessControl } from "./permissions.ts";
+import { matchPeer } from "./fuzzy.ts";
+
+export type SlotType = "peer" | "direction" | "distance" | "landmark";
+
+export type Direction = "left" | "right" | "up" | "down";
+
+export interface CommandContext {
+  manager: RamblyManager;
+  room: string;
+  speaker: { id: string; name: string };
+  peers: PeerInfo[];
+  followDistance: number;
+  // Without one, anyone may give any command
+  access?: AccessControl;
+}
+
+export interface CommandSlots {
+  peer?: PeerInfo;
+  direction?: Direction;
+  distance?: number;
+  landmark?: Landmark;
+}
+
+export interface VoiceIntent {
+  name: string;
+  /**
+   * Phrase templates matched against the whole (normalized) utterance.
+   * `{slot}` captures a slot, ` {slot?}` an optional one, and `(?:a|b)`
+   * gives alternatives.
+   */
+  patterns: string[];
+  /** Who may give the command; defaults to "everyone". */
+  permission?: PermissionTier;
+  /** Returns what to say back; "" when there is nothing to say. */
+  run(ctx: CommandContext, slots: CommandSlots): Promise<string>;
+}
+
+interface CompiledIntent {
+  intent: VoiceIntent;
+  regexes: RegExp[];
+}
+
+const DEFAULT_STEP = 50;
+
+const SLOT_PATTERNS: Record<SlotType, string> = {
+  peer: ".+?",
+  landmark: ".+?",
+  direction: "left|right|up|down|north|south|east|west",
+  distance: "\\d+|a hundred|one hundred|hundred|ten|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  ten: 10,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+  hundred: 100,
+  "a hundred": 100,
+  "one hundred": 100,
+};
+
+const DIRECTIONS: Record<string, Direction> = {
+  left: "left",
+  west: "left",
+  right: "right",
+  east: "right",
+  up: "up",
+  north: "up",
+  down: "down",
+  south: "down",
+};
+
+// Map y grows downward
+const DIRECTION_VECTORS: Record<Direction, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+function compilePattern(template: string): RegExp {
+  const source = template
+    .replace(/ \{(\w+)\?\}/g, (_, slot: SlotType) => `(?:\\s+(?<${slot}>${SLOT_PATTERNS[slot]})(?:\\s+units?)?)?`)
+    .replace(/\{(\w+)\}/g, (_, slot: SlotType) => `(?<${slot}>${SLOT_PATTERNS[slot]})`)
+    .replace(/ /g, "\\s+");
+  return new RegExp(`^${source}$`, "i");
+}
+
+// Lowercase, drop punctuation and politeness so "Could you follow me, please?" matches "follow me"
+export function normalizeCommand(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9'\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:please |can you |could you |would you )+/, "")
+    .replace(/ please$/, "");
+}
+
+export type CommandMatch =
+  | { intent: VoiceIntent; slots: CommandSlots }
+  | { intent: VoiceIntent; unresolvedPeer: string }
+  | { intent: VoiceIntent; unresolvedLandmark: string };
+
+/**
+ * Registered voice-command intents. Intents are tried in registration order;
+ * the first whose pattern matches and whose slots resolve wins.
+ */
+export class VoiceCommandRegistry {
+  private intents: CompiledIntent[] = [];
+
+  register(intent: VoiceIntent): this {
+    this.intents.push({ intent, regexes: intent.patterns.map(compilePattern) });
+    return this;
+  }
+
+  /** The tier an intent needs, before any `commandPermissions` override. */
+  permission(name: string): PermissionTier {
+    return this.intents.find((c) => c.intent.name === name)?.intent.permission ?? "everyone";
+  }
+
+  match(text: string, ctx: CommandContext): CommandMatch | null {
+    const normalized = normalizeCommand(text);
+    let unresolved: CommandMatch | null = null;
+
+    for (const { intent, regexes } of this.intents) {
+      for (const re of regexes) {
+        const m = normalized.match(re);
+        if (!m) continue;
+
+        const groups = m.groups ?? {};
+        const slots: CommandSlots = {};
+        if (groups.peer) {
+          const peer = this.resolvePeer(groups.peer, ctx);
+          if (!peer) {
+            // Keep looking; another intent may still claim the phrase
+            unresolved ??= { intent, unresolvedPeer: groups.peer };
+            continue;
+          }
+          slots.peer = peer;
+        }
+        if (groups.landmark) {
+          const landmark = ctx.manager.findLandmark(ctx.room, groups.landmark);
+          if (!landmark) {
+            unresolved ??= { intent, unresolvedLandmark: groups.landmark };
+            continue;
+          }
+          slots.landmark = landmark;
+        }
+        if (groups.direction) slots.direction = DIRECTIONS[groups.direction];
+        if (groups.distance) slots.distance = parseDistance(groups.distance);
+        return { intent, slots };
+      }
+    }
+    return unresolved;
+  }
+
+  /**
+   * Run the command in `text`, if there is one. Returns the reply to speak
+   * ("" for none), or null when the text isn't a command.
+   */
+  async handle(text: string, ctx: CommandContext): Promise<string | null> {
+    const match = this.match(text, ctx);
+    if (!match) return null;
+
+    const refusal = ctx.access?.check(ctx.room, match.intent.name, match.intent.permission ?? "everyone", ctx.speaker);
+    if (refusal != null) return refusal;
+
+    if ("unresolvedPeer" in match) {
+      const names = ctx.peers.map((p) => p.name);
+      return names.length > 0
+        ? `I don't see anyone called ${match.unresolvedPeer}. I can see ${names.join(", ")}.`
+        : `I don't see anyone called ${match.unresolvedPeer}.`;
+    }
+    if ("unresolvedLandmark" in match) {
+      return `I don't know where ${match.unresolvedLandmark} is.`;
+    }
+    return match.intent.run(ctx, match.slots);
+  }
+
+  private resolvePeer(spoken: string, ctx: CommandContext): PeerInfo | undefined {
+    if (spoken === "me" || spoken === "myself") {
+      return ctx.peers.find((p) => p.id === ctx.speaker.id) ?? { id: ctx.speaker.id, name: ctx.speaker.name };
+    }
+    return matchPeer(spoken, ctx.peers);
+  }
+}
+
+function parseDistance(text: string): number {
+  return NUMBER_WORDS[text] ?? Number(text);
+}
+
+function formatPeerList(ctx: CommandContext): string {
+  const peers = ctx.manager.getPeers(ctx.room);
+  if (peers.length === 0) return "Nobody else is here.";
+  const parts = peers.map((p) => (p.distance == null ? p.name : `${p.name}, ${p.distance} away`));
+  return `${peers.length === 1 ? "There's" : "Here are"} ${parts.join("; ")}.`;
+}
+
+/**
+ * The built-in intents: following, stopping, leaving and moving around,
+ * including to landmarks. Leaving needs an owner; the rest are open to
+ * anyone unless `commandPermissions` says otherwise.
+ */
+export function createDefaultCommands(): VoiceCommandRegistry {
+  return new VoiceCommandRegistry()
+    .register({
+      name: "follow_me",
+      patterns: ["(?:follow me|come here|come with me|follow|come)"],
+      async run(ctx) {
+        const result = await ctx.manager.follow(ctx.speaker.name, ctx.room);
+        return result.ok ? "On my way!" : result.error;
+      },
+    })
+    .register({
+      name: "follow_peer",
+      patterns: ["follow {peer}"],
+      async run(ctx, { peer }) {
+        const result = await ctx.manager.follow(peer!.name, ctx.room);
+        return result.ok ? `Following ${peer!.name}.` : result.error;
+      },
+    })
+    .register({
+      name: "unfollow",
+      patterns: ["(?:stop following|unfollow|stop|stay here|stay|wait here|stand still|freeze)"],
+      async run(ctx) {
+        const result = await ctx.manager.unfollow(ctx.room);
+        if (!result.ok) return result.error;
+        return result.target ? "Okay, I'll stay here." : "I wasn't following anyone.";
+      },
+    })
+    .register({
+      name: "leave",
+      permission: "owner",
+      // Not "bye": a farewell in passing isn't an order, and strangers shouldn't hear a refusal
+      patterns: ["(?:leave|go away|disconnect)"],
+      async run(ctx) {
+        await ctx.manager.speak("Goodbye!", ctx.room); // Resolves once TTS has finished
+        await ctx.manager.leave(ctx.room);
+        return ""; // Nothing to say after leaving
+      },
+    })
+    .register({
+      name: "come_closer",
+      patterns: ["(?:come closer|closer|get closer|come over here|come over)"],
+      async run(ctx) {
+        const result = await ctx.manager.approach(ctx.speaker.name, ctx.followDistance, ctx.room);
+        if (!result.ok) return result.error;
+        return result.moved ? "Coming closer." : "I'm right here.";
+      },
+    })
+    .register({
+      name: "join_group",
+      patterns: ["(?:come |come and |come over and )?(?:join us|join the group|join the conversation|join in)"],
+      async run(ctx) {
+        const result = await ctx.manager.joinGroup(ctx.speaker.name, ctx.room);
+        if (!result.ok) return result.error;
+        return result.moved ? "Coming to join you." : "I'm right here with you.";
+      },
+    })
+    .register({
+      name: "back_up",
+      patterns: ["(?:back up|back off|step back|move back|go back) {distance?}"],
+      async run(ctx, { distance }) {
+        const result = await ctx.manager.stepAway(ctx.speaker.name, distance ?? DEFAULT_STEP, ctx.room);
+        return result.ok ? "Backing up." : result.error;
+      },
+    })
+    .register({
+      name: "go_to_peer",
+      patterns: ["(?:go|walk|head|move) (?:to|over to|towards|toward) {peer}"],
+      async run(ctx, { peer }) {
+        const result = await ctx.manager.approach(peer!.name, ctx.followDistance, ctx.room);
+        if (!result.ok) return result.error;
+        return result.moved ? `Heading over to ${peer!.name}.` : `I'm already next to ${peer!.name}.`;
+      },
+    })
+    .register({
+      name: "go_to_landmark",
+      patterns: [
+        "(?:go|walk|head|move) (?:to|over to|towards|toward) {landmark}",
+        "(?:meet me|let's meet|lets meet) (?:at|by|near) {landmark}",
+      ],
+      async run(ctx, { landmark }) {
+        const result = await ctx.manager.goto(landmark!.name, ctx.room);
+        if (!result.ok) return result.error;
+        return result.moved ? `Heading to ${landmark!.name}.` : `I'm already at ${landmark!.name}.`;
+      },
+    })
+    .register({
+      name: "move_direction",
+      patterns: ["(?:move|go|walk|step|head) {direction} {distance?}"],
+      async run(ctx, { direction, distance }) {
+        const [ux, uy] = DIRECTION_VECTORS[direction!];
+        const amount = distance ?? DEFAULT_STEP;
+        const result = await ctx.manager.moveBy(ux * amount, uy * amount, ctx.room);
+        return result.ok ? `Moving ${direction} ${amount}.` : result.error;
+      },
+    })
+    .register({
+      name: "position",
+      patterns: ["(?:what's|what is|where's|where is) (?:my|your) (?:position|location)", "where am i", "where are you"],
+      async run(ctx) {
+        const position = ctx.manager.getPosition(ctx.room);
+        if (!position) return "I'm not in this room.";
+        const speaker = ctx.manager.getPeers(ctx.room).find((p) => p.id === ctx.speaker.id);
+        const mine = `I'm at ${position.x}, ${position.y}`;
+        if (!speaker?.position) return `${mine}.`;
+        return `You're at ${speaker.position.x}, ${speaker.position.y}. ${mine}, ${speaker.distance} units from you.`;
+      },
+    })
+    .register({
+      name: "who_is_here",
+      patterns: ["(?:who's|who is|who else is) (?:here|around|nearby|in the room)", "who can you (?:hear|see)"],
+      async run(ctx) {
+        return formatPeerList(ctx);
+      },
+    });
+}
@@ -0,0 +1,95 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { RamblyManager } from "../src/manager.ts";
+import { BehaviorEngine, type BehaviorOptions } from "../src/behaviors.ts";
+import { DEFAULT_CONFIG } from "../src/config.ts";
+import type { PresenceEvent } from "../src/types.ts";
+import { FakeRambly, waitFor } from "./helpers/fake-rambly.ts";
+
+let fake: FakeRambly;
+let historyDir: string;
+let cleanup: Array<() => Promise<void> | void> = [];
+
+before(async () => {
+  fake = await FakeRambly.start();
+  historyDir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-history-"));
+});
+
+after(async () => {
+  await fake.close();
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  for (const fn of cleanup) await fn();
+  cleanup = [];
+});
+
+async function setup(options: Partial<BehaviorOptions>, fakeOptions = {}) {
+  const manager = new RamblyManager({ daemonCommand: fake.daemonCommand(fakeOptions), defaultName: "Haku", historyDir });
+  const engine = new BehaviorEngine(manager, { ...DEFAULT_CONFIG, ...options });
+  // Ticks are driven by hand
+  engine.start(60_000);
+  cleanup.push(() => engine.stop(), () => manager.leaveAll());
+
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:behave");
+  return { manager, engine, daemon: await daemonReady };
+}
+
+function arrival(name: string, time: number): PresenceEvent {
+  return { type: "entered_range", room: "forest:behave", peerId: name.toLowerCase(), name, time, distance: 20 };
+}
+
+test("peers are greeted on arrival, once per cooldown, and not mid-conversation", async () => {
+  const { engine, daemon } = await setup({ greetOnArrival: true, greetCooldownMs: 60_000 });
+  const now = Date.now();
+
+  engine.handlePresence(arrival("Alice", now));
+  engine.handlePresence(arrival("Alice", now + 1000));
+  await daemon.waitForCommand((c) => c.action === "speak" && c.text === "Hi Alice!");
+
+  engine.noteSpeech("forest:behave");
+  engine.handlePresence(arrival("Bob", Date.now()));
+  assert.equal(engine.status("forest:behave")?.suspended, "conversation");
+
+  await new Promise((r) => setTimeout(r, 100));
+  const speeches = daemon.commands.filter((c) => c.action === "speak");
+  assert.equal(speeches.length, 1);
+  assert.deepEqual(engine.status("forest:behave")?.greet.lastGreeted, { name: "Alice", time: now });
+});
+
+test("the agent strolls near its join spot when nobody is around, but not while following", async () => {
+  const { manager, engine, daemon } = await setup(
+    { idleWander: true, wanderIntervalMs: 1000, wanderRadius: 50 },
+    { peers: [{ id: "d", name: "David", position: { x: 900, y: 900 } }] },
+  );
+  const now = Date.now();
+
+  await manager.follow("David");
+  engine.tick(now);
+  engine.tick(now + 5000);
+  assert.equal(engine.status("forest:behave")?.suspended, "following");
+  await manager.unfollow();
+  const before = daemon.commands.length;
+
+  engine.tick(now + 10_000);
+  const move = await waitFor(() => daemon.commands.slice(before).find((c) => c.action === "move"));
+  assert.ok(move.action === "move" && Math.hypot(move.x - 250, move.y - 230) <= 50);
+});
+
+test("an empty room is left after the configured time", async () => {
+  const { manager, engine } = await setup({ autoLeaveAfterMs: 30_000 });
+  const now = Date.now();
+
+  engine.tick(now);
+  assert.equal(engine.status("forest:behave", now + 10_000)?.autoLeave.leavesInMs, 20_000);
+  engine.tick(now + 29_000);
+  assert.deepEqual(manager.getRooms(), ["forest:behave"]);
+
+  engine.tick(now + 30_000);
+  await waitFor(() => manager.getRooms().length === 0);
+});
@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RamblyChannel, formatInboundBody, type ChannelRuntime } from "../src/channel.ts";
+import { REPLY_ACTIONS_PROMPT } from "../src/reply-actions.ts";
+
+function fakeRuntime(replies: string[], seen: Array<Record<string, unknown>>): ChannelRuntime {
+  return {
+    reply: {
+      finalizeInboundContext: (ctx) => ({ ...ctx, finalized: true }),
+      async dispatchReplyWithBufferedBlockDispatcher({ ctx, dispatcherOptions }) {
+        seen.push(ctx);
+        for (const text of replies) await dispatcherOptions.deliver({ text });
+        await dispatcherOptions.deliver({ text: "Something broke", isError: true });
+      },
+    },
+  };
+}
+
+const lines = [
+  { from: "d", name: "David", text: "Hey Haku, what's up?", time: 1000 },
+  { from: "m", name: "Mia", text: "and where's the lake?", time: 2000 },
+];
+
+test("heard speech reaches the session tagged with room and speakers, and replies are spoken", async () => {
+  const seen: Array<Record<string, unknown>> = [];
+  const spoken: string[] = [];
+  const channel = new RamblyChannel(fakeRuntime(["Not much!", "It's north."], seen), {}, () => ["forest:haku-test"], async () => {});
+
+  await channel.dispatch(
+    { room: "forest:haku-test", sessionKey: "", agentId: "main", lines },
+    async (text) => void spoken.push(text),
+  );
+
+  assert.deepEqual(spoken, ["Not much!", "It's north."]);
+  const ctx = seen[0];
+  assert.equal(ctx.finalized, true);
+  assert.equal(ctx.Body, "[Rambly forest:haku-test] David: Hey Haku, what's up?\n[Rambly forest:haku-test] Mia: and where's the lake?");
+  assert.deepEqual(
+    [ctx.SessionKey, ctx.To, ctx.From, ctx.SenderName, ctx.GroupSubject, ctx.Provider, ctx.Timestamp],
+    ["agent:main:main", "rambly:forest:haku-test", "rambly:d", "David, Mia", "forest:haku-test", "rambly", 2000],
+  );
+});
+
+test("the body carries the persona, the room as a whole and how to act in it", () => {
+  const body = formatInboundBody({
+    room: "forest:a",
+    sessionKey: "",
+    agentId: "main",
+    lines: lines.slice(0, 1),
+    persona: "You are Haku. David is speaking to you.",
+    roomContext: "You are at (250, 230).\nNearby: Mia (40 away)",
+    actions: true,
+    overheard: [{ name: "Mia", text: "nice day" }],
+  });
+  assert.equal(body, [
+    "(You are Haku. David is speaking to you.)",
+    "(The room right now:\nYou are at (250, 230).\nNearby: Mia (40 away))",
+    `(${REPLY_ACTIONS_PROMPT})`,
+    "(Overheard before this, not addressed to you:\n[Rambly forest:a] Mia: nice day)",
+    "[Rambly forest:a] David: Hey Haku, what's up?",
+  ].join("\n"));
+});
+
+test("the body carries what was overheard and what happened since the last reply", () => {
+  const body = formatInboundBody({
+    room: "forest:a",
+    sessionKey: "agent:main:rambly",
+    agentId: "main",
+    lines: lines.slice(0, 1),
+    overheard: [{ name: "Mia", text: "nice day" }],
+    presence: [{ type: "joined", room: "forest:a", peerId: "m", name: "Mia", time: 0, distance: null }],
+    actionResults: ['[[follow David]]: Now following "David".'],
+  });
+  assert.equal(body, [
+    "(Overheard before this, not addressed to you:\n[Rambly forest:a] Mia: nice day)",
+    "[Rambly forest:a] David: Hey Haku, what's up?",
+    "(Since you last spoke:\n- Mia joined the room)",
+    '(How your last actions went:\n- [[follow David]]: Now following "David".)',
+  ].join("\n"));
+});
+
+test("someone coming or going reaches the session with nobody speaking", async () => {
+  const seen: Array<Record<string, unknown>> = [];
+  const spoken: string[] = [];
+  const channel = new RamblyChannel(fakeRuntime(["Hi Mia!"], seen), {}, () => ["forest:a"], async () => {});
+  const presence = [{ type: "entered_range" as const, room: "forest:a", peerId: "m", name: "Mia", time: 0, distance: 40 }];
+
+  await channel.dispatch({ room: "forest:a", sessionKey: "", agentId: "main", lines: [], presence }, async (text) => {
+    spoken.push(text);
+  });
+
+  assert.deepEqual(spoken, ["Hi Mia!"]);
+  const ctx = seen[0];
+  assert.equal(ctx.Body, [
+    "Nobody has said anything to you, but just now:",
+    "- Mia came within earshot (40 away)",
+    "Say something if it suits the moment, or reply with just NO_REPLY to stay quiet.",
+  ].join("\n"));
+  assert.deepEqual([ctx.From, ctx.SenderName], ["rambly:forest:a", "Rambly"]);
+});
+
+test("messages the agent sends on the channel are spoken in the room they're addressed to", async () => {
+  const outbound: Array<[string, string]> = [];
+  const channel = new RamblyChannel(fakeRuntime([], []), {}, () => ["forest:a"], async (room, text) => {
+    outbound.push([room, text]);
+  });
+  const { sendText } = channel.plugin().outbound;
+
+  const sent = await sendText({ to: "rambly:forest:a", text: "Back in a minute" });
+  assert.equal(sent.channel, "rambly");
+  await sendText({ to: "forest:a", text: "Hello again" });
+  assert.deepEqual(outbound, [["forest:a", "Back in a minute"], ["forest:a", "Hello again"]]);
+  await assert.rejects(sendText({ to: "rambly:island:b", text: "hi" }), /Not in Rambly room "island:b"/);
+});
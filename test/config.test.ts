@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { CONFIG_SCHEMA, ConfigError, DEFAULT_CONFIG, loadConfig, resolveRoomConfig } from "../src/config.ts";
+
+test("the manifest's schema is the config module's", () => {
+  const manifest = JSON.parse(fs.readFileSync(new URL("../openclaw.plugin.json", import.meta.url), "utf8"));
+  assert.deepEqual(manifest.configSchema, JSON.parse(JSON.stringify(CONFIG_SCHEMA)));
+});
+
+test("missing options take their defaults", () => {
+  assert.deepEqual(loadConfig(undefined), DEFAULT_CONFIG);
+  const config = loadConfig({ hearingRadius: 200, wakeWords: ["hey bot"] });
+  assert.equal(config.hearingRadius, 200);
+  assert.deepEqual(config.wakeWords, ["hey bot"]);
+  assert.equal(config.followDistance, 40);
+});
+
+test("every problem is reported, with the path and what was wrong", () => {
+  const err = (() => {
+    try {
+      loadConfig({
+        hearingRadius: 0,
+        turnMaxQueue: 2.5,
+        responsePolicy: "sometimes",
+        wakeWords: ["ok", 3],
+        folowDistance: 10,
+        rooms: { forest: { voice: 1, speed: 2 } },
+        reconnectBaseDelayMs: 5000,
+        reconnectMaxDelayMs: 1000,
+      });
+    } catch (e) {
+      return e;
+    }
+  })();
+  assert.ok(err instanceof ConfigError);
+  assert.deepEqual(err.issues, [
+    "hearingRadius: must be at least 1, got 0",
+    "turnMaxQueue: must be a whole number, got 2.5",
+    'responsePolicy: must be one of "always", "addressed", "sole_peer", "follow_target", got "sometimes"',
+    "wakeWords[1]: must be a string, got 3",
+    "folowDistance: unknown option (did you mean followDistance?)",
+    "rooms.forest.voice: must be a string, got 1",
+    "rooms.forest.speed: unknown option",
+  ]);
+  assert.match(err.message, /^Invalid Rambly config:\n  - hearingRadius/);
+
+  assert.throws(
+    () => loadConfig({ reconnectBaseDelayMs: 5000, reconnectMaxDelayMs: 1000 }),
+    /reconnectMaxDelayMs: must be at least reconnectBaseDelayMs \(5000\), got 1000/,
+  );
+  assert.throws(() => loadConfig({ rooms: { "forest:a:b": {} } }), /rooms\.forest:a:b: key must be a map/);
+});
+
+test("room overrides win over map overrides, which win over the plugin config", () => {
+  const config = loadConfig({
+    hearingRadius: 150,
+    voice: "nova",
+    rooms: {
+      forest: { hearingRadius: 300, voice: "echo" },
+      "forest:library": { hearingRadius: 60, responsePolicy: "addressed" },
+    },
+  });
+  const library = resolveRoomConfig(config, "forest:library");
+  assert.deepEqual(
+    [library.hearingRadius, library.voice, library.responsePolicy],
+    [60, "echo", "addressed"],
+  );
+  const clearing = resolveRoomConfig(config, "forest:clearing");
+  assert.deepEqual([clearing.hearingRadius, clearing.voice, clearing.responsePolicy], [300, "echo", "always"]);
+  assert.equal(resolveRoomConfig(config, "island:beach").hearingRadius, 150);
+});
+
+test("agent, model and persona can be set per map or room, and personas are checked", () => {
+  const config = loadConfig({
+    rooms: {
+      office: { model: "openai/gpt-4o-mini", thinkingLevel: "off", persona: "You are {agent}. One sentence only." },
+      "office:hangout": { model: "", persona: "You are {agent}, hanging out with {peers}." },
+    },
+  });
+  const standup = resolveRoomConfig(config, "office:standup");
+  assert.deepEqual(
+    [standup.agentId, standup.model, standup.thinkingLevel, standup.persona],
+    ["main", "openai/gpt-4o-mini", "off", "You are {agent}. One sentence only."],
+  );
+  const hangout = resolveRoomConfig(config, "office:hangout");
+  assert.deepEqual([hangout.model, hangout.thinkingLevel], ["", "off"]);
+
+  assert.throws(
+    () => loadConfig({ persona: "I am {agnet}", rooms: { office: { persona: "{mood}" } } }),
+    (err: any) => err instanceof ConfigError
+      && err.issues.join("|") === "rooms.office.persona: unknown variable {mood}|persona: unknown variable {agnet}",
+  );
+});
+
+test("models must be provider/model and thinking levels one OpenClaw knows", () => {
+  assert.equal(loadConfig({ model: "openrouter/anthropic/claude-sonnet-4", thinkingLevel: "high" }).thinkingLevel, "high");
+  assert.throws(
+    () => loadConfig({
+      model: "gpt-4o",
+      thinkingLevel: "loads",
+      rooms: { office: { model: "openai/", thinkingLevel: "max" } },
+    }),
+    (err: any) => err instanceof ConfigError && err.issues.join("|") === [
+      'thinkingLevel: must be one of "", "off", "minimal", "low", "medium", "high", "xhigh", got "loads"',
+      'rooms.office.thinkingLevel: must be one of "", "off", "minimal", "low", "medium", "high", "xhigh", got "max"',
+    ].join("|"),
+  );
+  assert.throws(
+    () => loadConfig({ model: "gpt-4o", rooms: { office: { model: "openai/" } } }),
+    (err: any) => err instanceof ConfigError
+      && err.issues.join("|") === 'rooms.office.model: must be provider/model, got "openai/"|model: must be provider/model, got "gpt-4o"',
+  );
+});
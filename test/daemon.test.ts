@@ -0,0 +1,104 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { RamblyDaemon } from "../src/daemon.ts";
+import { FakeRambly } from "./helpers/fake-rambly.ts";
+
+let fake: FakeRambly;
+
+before(async () => {
+  fake = await FakeRambly.start();
+});
+
+after(async () => {
+  await fake.close();
+});
+
+test("spawn rejects when the daemon hasn't joined within 15 seconds", async (t) => {
+  const daemon = new RamblyDaemon();
+  const connected = fake.waitForDaemon();
+
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const joining = daemon.spawn("forest:stuck", { name: "Haku", command: fake.daemonCommand({ neverJoin: true }) });
+  let settled = false;
+  joining.catch(() => {}).finally(() => (settled = true));
+
+  await connected;
+  t.mock.timers.tick(14_999);
+  await new Promise((r) => setImmediate(r));
+  assert.equal(settled, false);
+
+  t.mock.timers.tick(1);
+  await assert.rejects(joining, /within 15 seconds/);
+
+  // Let kill() deliver SIGTERM
+  const exited = new Promise((resolve) => daemon.once("exit", resolve));
+  t.mock.timers.tick(500);
+  t.mock.timers.reset();
+  await exited;
+});
+
+test("request resolves on the matching event", async () => {
+  const daemon = new RamblyDaemon();
+  await daemon.spawn("forest:request", { name: "Haku", command: fake.daemonCommand({ speakMs: 50 }) });
+
+  const spoke = await daemon.request({ action: "speak", text: "hello there" });
+  assert.deepEqual(spoke, { event: "spoke", text: "hello there" });
+
+  const moved = await daemon.request({ action: "move", x: 10, y: 20 });
+  assert.deepEqual(moved, { event: "moved", x: 10, y: 20 });
+
+  const exited = new Promise((resolve) => daemon.once("exit", resolve));
+  daemon.kill();
+  await exited;
+});
+
+test("only an error naming a request's action rejects it", async () => {
+  const daemon = new RamblyDaemon();
+  daemon.on("error", () => {});
+  const connected = fake.waitForDaemon();
+  await daemon.spawn("forest:errors", { name: "Haku", command: fake.daemonCommand({ speakMs: 300 }) });
+  const handle = await connected;
+
+  // Errors from other commands leave the speech to finish
+  const speaking = daemon.request({ action: "speak", text: "still talking" });
+  await handle.waitForCommand((cmd) => cmd.action === "speak");
+  handle.emit({ event: "error", message: "Move failed" });
+  handle.emit({ event: "error", message: "Unknown emote", action: "emote" });
+  assert.deepEqual(await speaking, { event: "spoke", text: "still talking" });
+
+  const failing = daemon.request({ action: "speak", text: "this one fails" });
+  await handle.waitForCommand((cmd) => cmd.action === "speak" && cmd.text === "this one fails");
+  handle.emit({ event: "error", message: "TTS unavailable", action: "speak" });
+  await assert.rejects(failing, /TTS unavailable/);
+
+  const exited = new Promise((resolve) => daemon.once("exit", resolve));
+  daemon.kill();
+  await exited;
+});
+
+test("a request with no answer in time is rejected", async () => {
+  const daemon = new RamblyDaemon();
+  await daemon.spawn("forest:slow", { name: "Haku", command: fake.daemonCommand({ speakMs: 1000 }) });
+
+  await assert.rejects(daemon.request({ action: "speak", text: "too slow" }, 50), /Timed out waiting for "spoke" after 50ms/);
+
+  const exited = new Promise((resolve) => daemon.once("exit", resolve));
+  daemon.kill();
+  await exited;
+});
+
+test("stdin errors other than EPIPE are passed on as stderr", async () => {
+  const daemon = new RamblyDaemon();
+  await daemon.spawn("forest:stdin", { name: "Haku", command: fake.daemonCommand() });
+  const lines: string[] = [];
+  daemon.on("stderr", (line) => lines.push(line));
+
+  const stdin = (daemon as unknown as { proc: { stdin: NodeJS.WritableStream } }).proc.stdin;
+  stdin.emit("error", Object.assign(new Error("write EPIPE"), { code: "EPIPE" }));
+  stdin.emit("error", Object.assign(new Error("write EIO"), { code: "EIO" }));
+  assert.deepEqual(lines, ["stdin error: write EIO"]);
+
+  const exited = new Promise((resolve) => daemon.once("exit", resolve));
+  daemon.kill();
+  await exited;
+});
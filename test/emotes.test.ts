@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchEmoteCue } from "../src/emotes.ts";
+
+const cues = { haha: "laugh", "*waves*": "wave", "of course": "nod" } as const;
+
+test("the earliest cue in a reply picks the emote", () => {
+  assert.deepEqual(matchEmoteCue("Of course! Haha, that's funny.", cues), { emote: "nod", text: "Of course! Haha, that's funny." });
+  assert.deepEqual(matchEmoteCue("Hahaha no", cues), null);
+  assert.equal(matchEmoteCue("Nothing to see here.", cues), null);
+  assert.equal(matchEmoteCue("anything", {}), null);
+});
+
+test("a cue inside a stage direction is acted, not spoken", () => {
+  assert.deepEqual(matchEmoteCue("*waves* Hi there!", cues), { emote: "wave", text: "Hi there!" });
+  assert.deepEqual(matchEmoteCue("Oh *laughs haha* good one", cues), { emote: "laugh", text: "Oh good one" });
+});
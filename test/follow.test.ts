@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TargetSpeed, followStep } from "../src/follow.ts";
+
+test("target speed is smoothed and drops to zero once they stop", () => {
+  const speed = new TargetSpeed();
+  speed.sample({ x: 0, y: 0 }, 0);
+  assert.equal(speed.speed(0), 0);
+  speed.sample({ x: 20, y: 0 }, 100);
+  speed.sample({ x: 40, y: 0 }, 200);
+  assert.ok(Math.abs(speed.speed(200) - 0.15) < 1e-9);
+  assert.equal(speed.speed(1500), 0);
+
+  // A long pause between reports isn't a slow walk
+  speed.sample({ x: 60, y: 0 }, 5000);
+  assert.ok(Math.abs(speed.speed(5000) - 0.075) < 1e-9);
+});
+
+test("steps match the target's pace and grow with the gap, within bounds", () => {
+  const base = { intervalMs: 100, maxStep: 60 };
+  assert.equal(followStep({ ...base, speed: 0, gap: 0 }), 2);
+  assert.equal(followStep({ ...base, speed: 0, gap: 10 }), 2);
+  assert.equal(followStep({ ...base, speed: 0.3, gap: 0 }), 30);
+  assert.equal(followStep({ ...base, speed: 0.3, gap: 100 }), 40);
+  assert.equal(followStep({ ...base, speed: 0.3, gap: 1000 }), 60);
+});
+
+test("a slow target gets small steps rather than the old fixed stride", () => {
+  const base = { intervalMs: 100, maxStep: 60 };
+  // A stroll at 0.05 units/ms covers 5 units a tick
+  assert.equal(followStep({ ...base, speed: 0.05, gap: 0 }), 5);
+  assert.equal(followStep({ ...base, speed: 0.05, gap: 20 }), 7);
+  assert.ok(followStep({ ...base, speed: 0.05, gap: 0 }) < followStep({ ...base, speed: 0.2, gap: 0 }));
+});
@@ -0,0 +1,174 @@
+/**
+ * Stand-in for rambly-client's `daemon` mode. Speaks the same JSON-lines
+ * protocol on stdin/stdout, with behavior set by a `--fake-options=<base64>`
+ * argument and, optionally, driven live by a FakeRambly controller over a
+ * local socket.
+ *
+ * Usage (as spawned by RamblyDaemon):
+ *   node --import tsx fake-daemon.ts --fake-options=... daemon <room> --name <name> --json
+ */
+
+import net from "node:net";
+import { createInterface } from "node:readline";
+import type { DaemonCommand, DaemonEvent, PeerInfo } from "../../src/types.ts";
+
+export interface FakeDaemonOptions {
+  // Socket of the FakeRambly controller, if any
+  control?: string;
+  // Delay before the `joined` event
+  joinDelayMs?: number;
+  // Never emit `joined` (exercises the join timeout)
+  neverJoin?: boolean;
+  // How long a `speak` takes before `spoke`
+  speakMs?: number;
+  // Exit with code 1 this long after joining
+  crashAfterMs?: number;
+  peers?: PeerInfo[];
+}
+
+// Controller -> daemon messages
+export type FakeControlMessage =
+  | { type: "emit"; event: DaemonEvent }
+  | { type: "crash"; code?: number }
+  | { type: "options"; options: FakeDaemonOptions };
+
+// Daemon -> controller messages
+export type FakeReportMessage =
+  | { type: "hello"; room: string; name: string; args: string[] }
+  | { type: "command"; cmd: DaemonCommand };
+
+function parseArgs(argv: string[]) {
+  let options: FakeDaemonOptions = {};
+  const rest: string[] = [];
+  for (const arg of argv) {
+    if (arg.startsWith("--fake-options=")) {
+      options = JSON.parse(Buffer.from(arg.slice("--fake-options=".length), "base64url").toString("utf8"));
+    } else {
+      rest.push(arg);
+    }
+  }
+  const room = rest[rest.indexOf("daemon") + 1];
+  const nameIndex = rest.indexOf("--name");
+  const name = nameIndex === -1 ? "Agent" : rest[nameIndex + 1];
+  return { options, room, name, args: rest };
+}
+
+function main() {
+  const { options, room, name, args } = parseArgs(process.argv.slice(2));
+  let position = { x: 250, y: 230 };
+  const peers = new Map<string, PeerInfo>((options.peers ?? []).map((p) => [p.id, p]));
+  let control: net.Socket | null = null;
+  let speaking: { text: string; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const emit = (event: DaemonEvent) => {
+    process.stdout.write(JSON.stringify(event) + "\n");
+  };
+
+  const report = (msg: FakeReportMessage) => {
+    control?.write(JSON.stringify(msg) + "\n");
+  };
+
+  // Keep our own peer list in step with injected events
+  const track = (event: DaemonEvent) => {
+    if (event.event === "peer_join") {
+      peers.set(event.id, { id: event.id, name: event.name, position: event.position });
+    } else if (event.event === "peer_moved") {
+      const peer = peers.get(event.id);
+      if (peer) peer.position = event.position;
+    } else if (event.event === "peer_leave") {
+      peers.delete(event.id);
+    }
+  };
+
+  const handleControl = (msg: FakeControlMessage) => {
+    switch (msg.type) {
+      case "emit":
+        track(msg.event);
+        emit(msg.event);
+        break;
+      case "crash":
+        process.exit(msg.code ?? 1);
+        break;
+      case "options":
+        Object.assign(options, msg.options);
+        break;
+    }
+  };
+
+  const handleCommand = (cmd: DaemonCommand) => {
+    report({ type: "command", cmd });
+    switch (cmd.action) {
+      case "speak": {
+        const current = {
+          text: cmd.text,
+          timer: setTimeout(() => {
+            if (speaking === current) speaking = null;
+            emit({ event: "spoke", text: cmd.text });
+          }, options.speakMs ?? 10),
+        };
+        speaking = current;
+        break;
+      }
+      case "stop":
+        if (speaking) {
+          clearTimeout(speaking.timer);
+          emit({ event: "spoke", text: speaking.text, interrupted: true });
+          speaking = null;
+        }
+        emit({ event: "stopped" });
+        break;
+      case "character":
+        emit({ event: "character", character: cmd.character });
+        break;
+      case "emote":
+        emit({ event: "emoted", emote: cmd.emote });
+        break;
+      case "move":
+        position = { x: cmd.x, y: cmd.y };
+        emit({ event: "moved", x: cmd.x, y: cmd.y });
+        break;
+      case "peers":
+        emit({ event: "peers", peers: [...peers.values()] });
+        break;
+      case "status":
+        emit({ event: "status", room, position, peers: [...peers.values()] });
+        break;
+      case "leave":
+        emit({ event: "left" });
+        process.exit(0);
+    }
+  };
+
+  const join = () => {
+    if (options.neverJoin) return;
+    setTimeout(() => {
+      emit({ event: "joined", room, peerId: `fake-${process.pid}` });
+      if (options.crashAfterMs != null) {
+        setTimeout(() => process.exit(1), options.crashAfterMs);
+      }
+    }, options.joinDelayMs ?? 0);
+  };
+
+  createInterface({ input: process.stdin }).on("line", (line) => {
+    if (!line.trim()) return;
+    handleCommand(JSON.parse(line));
+  });
+
+  if (!options.control) {
+    join();
+    return;
+  }
+
+  control = net.createConnection(options.control, () => {
+    report({ type: "hello", room, name, args });
+    join();
+  });
+  createInterface({ input: control }).on("line", (line) => {
+    if (line.trim()) handleControl(JSON.parse(line));
+  });
+  // Controller went away: nothing left to drive us
+  control.on("close", () => process.exit(0));
+  control.on("error", () => process.exit(1));
+}
+
+main();
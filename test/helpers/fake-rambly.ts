@@ -0,0 +1,175 @@
+/**
+ * Test-side controller for fake-daemon.ts. Hands out `daemonCommand` strings
+ * for RamblyManager and lets tests drive each spawned daemon: inject events,
+ * crash it, and inspect the commands it received.
+ */
+
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import fs from "node:fs";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import type { DaemonCommand, DaemonEvent } from "../../src/types.ts";
+import type { FakeControlMessage, FakeDaemonOptions, FakeReportMessage } from "./fake-daemon.ts";
+
+const FAKE_DAEMON = path.join(path.dirname(fileURLToPath(import.meta.url)), "fake-daemon.ts");
+
+export class FakeDaemonHandle {
+  readonly commands: DaemonCommand[] = [];
+  private waiters: Array<{ match: (cmd: DaemonCommand) => boolean; resolve: (cmd: DaemonCommand) => void }> = [];
+
+  constructor(
+    readonly room: string,
+    readonly name: string,
+    readonly args: string[],
+    private socket: net.Socket,
+  ) {}
+
+  emit(event: DaemonEvent): void {
+    this.send({ type: "emit", event });
+  }
+
+  crash(code = 1): void {
+    this.send({ type: "crash", code });
+  }
+
+  setOptions(options: FakeDaemonOptions): void {
+    this.send({ type: "options", options });
+  }
+
+  /**
+   * Resolve with the first command (already received or still to come) that
+   * matches.
+   */
+  waitForCommand(match: (cmd: DaemonCommand) => boolean, timeoutMs = 2000): Promise<DaemonCommand> {
+    const seen = this.commands.find(match);
+    if (seen) return Promise.resolve(seen);
+    return withTimeout(
+      new Promise((resolve) => this.waiters.push({ match, resolve })),
+      timeoutMs,
+      "Timed out waiting for daemon command",
+    );
+  }
+
+  /** @internal */
+  record(cmd: DaemonCommand): void {
+    this.commands.push(cmd);
+    this.waiters = this.waiters.filter((w) => {
+      if (!w.match(cmd)) return true;
+      w.resolve(cmd);
+      return false;
+    });
+  }
+
+  private send(msg: FakeControlMessage) {
+    this.socket.write(JSON.stringify(msg) + "\n");
+  }
+}
+
+export class FakeRambly {
+  readonly daemons: FakeDaemonHandle[] = [];
+  private waiters: Array<() => boolean> = [];
+  private sockets = new Set<net.Socket>();
+
+  private constructor(
+    private server: net.Server,
+    private socketPath: string,
+  ) {}
+
+  static async start(): Promise<FakeRambly> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-rambly-"));
+    const socketPath = path.join(dir, "control.sock");
+    const server = net.createServer();
+    const fake = new FakeRambly(server, socketPath);
+    server.on("connection", (socket) => fake.accept(socket));
+    await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+    return fake;
+  }
+
+  /**
+   * A `daemonCommand` that spawns a fake daemon wired to this controller.
+   */
+  daemonCommand(options: FakeDaemonOptions = {}): string {
+    const encoded = Buffer.from(JSON.stringify({ ...options, control: this.socketPath })).toString("base64url");
+    return `${process.execPath} --import tsx ${FAKE_DAEMON} --fake-options=${encoded}`;
+  }
+
+  /**
+   * Resolve with the next daemon to connect, or the nth one overall.
+   */
+  waitForDaemon(index = this.daemons.length, timeoutMs = 10000): Promise<FakeDaemonHandle> {
+    return withTimeout(
+      new Promise((resolve) => {
+        const check = () => {
+          const handle = this.daemons[index];
+          if (handle) resolve(handle);
+          return !!handle;
+        };
+        if (!check()) this.waiters.push(check);
+      }),
+      timeoutMs,
+      "Timed out waiting for fake daemon to connect",
+    );
+  }
+
+  async close(): Promise<void> {
+    // Fake daemons exit once their control socket closes
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    fs.rmSync(path.dirname(this.socketPath), { recursive: true, force: true });
+  }
+
+  private accept(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    let handle: FakeDaemonHandle | null = null;
+    createInterface({ input: socket }).on("line", (line) => {
+      if (!line.trim()) return;
+      const msg: FakeReportMessage = JSON.parse(line);
+      if (msg.type === "hello") {
+        handle = new FakeDaemonHandle(msg.room, msg.name, msg.args, socket);
+        this.daemons.push(handle);
+        this.waiters = this.waiters.filter((check) => !check());
+      } else if (msg.type === "command") {
+        handle?.record(msg.cmd);
+      }
+    });
+    socket.on("error", () => {});
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * Poll until `check` returns a truthy value.
+ */
+export async function waitFor<T>(
+  check: () => T | undefined | null | false | Promise<T | undefined | null | false>,
+  timeoutMs = 3000,
+  intervalMs = 20,
+): Promise<T> {
+  const start = Date.now();
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
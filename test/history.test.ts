@@ -0,0 +1,63 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TranscriptLog, parseTime } from "../src/history.ts";
+import type { HistoryEntry } from "../src/types.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-history-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(room: string, time: number, speakerName: string, text: string): HistoryEntry {
+  return { time, room, kind: "heard", speakerId: speakerName.toLowerCase(), speakerName, text, x: null, y: null, distance: null };
+}
+
+test("entries are filtered by room, speaker, time and text, newest first", () => {
+  const log = new TranscriptLog(dir, { maxEntries: 0, maxAgeDays: 0 });
+  log.append(entry("forest:a", 1000, "Alice", "Meet at the fountain"));
+  log.append(entry("forest:a", 2000, "Bob", "the FOUNTAIN is nice"));
+  log.append(entry("island:b", 3000, "Alice", "hello from the island"));
+
+  assert.deepEqual(log.query({}).entries.map((e) => e.time), [3000, 2000, 1000]);
+  assert.equal(log.query({ room: "forest:a" }).total, 2);
+  assert.deepEqual(log.query({ speaker: "alice" }).entries.map((e) => e.room), ["island:b", "forest:a"]);
+  assert.deepEqual(log.query({ speaker: "bob" }).entries.map((e) => e.time), [2000]);
+  assert.deepEqual(log.query({ since: 1500, until: 2500 }).entries.map((e) => e.time), [2000]);
+  assert.deepEqual(log.query({ text: "fountain meet" }).entries.map((e) => e.time), [1000]);
+});
+
+test("queries page with offset and limit", () => {
+  const log = new TranscriptLog(dir, { maxEntries: 0, maxAgeDays: 0 });
+  for (let i = 1; i <= 5; i++) log.append(entry("forest:a", i, "Alice", `line ${i}`));
+
+  const page = log.query({ limit: 2, offset: 2 });
+  assert.equal(page.total, 5);
+  assert.deepEqual(page.entries.map((e) => e.text), ["line 3", "line 2"]);
+});
+
+test("pruning applies the age and size limits", () => {
+  const now = Date.now();
+  const log = new TranscriptLog(dir, { maxEntries: 2, maxAgeDays: 1 });
+  log.append(entry("forest:a", now - 2 * 86_400_000, "Alice", "too old"));
+  for (let i = 3; i >= 1; i--) log.append(entry("forest:a", now - i, "Alice", `recent ${i}`));
+
+  log.prune("forest:a", now);
+  assert.deepEqual(log.query({}).entries.map((e) => e.text), ["recent 1", "recent 2"]);
+});
+
+test("time bounds accept relative times, ISO dates and epoch ms", () => {
+  const now = 10_000_000;
+  assert.equal(parseTime("30m", now), now - 30 * 60_000);
+  assert.equal(parseTime("2h", now), now - 2 * 3_600_000);
+  assert.equal(parseTime("2026-01-01T00:00:00Z", now), Date.UTC(2026, 0, 1));
+  assert.equal(parseTime("12345", now), 12345);
+  assert.equal(parseTime("yesterday-ish", now), null);
+});
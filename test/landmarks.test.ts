@@ -0,0 +1,77 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { LandmarkStore } from "../src/landmarks.ts";
+
+let dir: string;
+let savedDir: string;
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-landmarks-"));
+  fs.writeFileSync(
+    path.join(dir, "forest.landmarks.json"),
+    JSON.stringify({
+      landmarks: [
+        { name: "Fountain", x: 420, y: 310 },
+        { name: "Lake", x: 700, y: 500, radius: 80, aliases: ["pond"] },
+      ],
+    }),
+  );
+  savedDir = path.join(dir, "saved");
+  fs.writeFileSync(path.join(dir, "broken.landmarks.json"), JSON.stringify({ landmarks: [{ name: "nowhere" }] }));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("landmarks are found by name, alias or a close spelling", () => {
+  const store = new LandmarkStore(dir, savedDir);
+  assert.equal(store.find("forest", "the fountain")?.name, "Fountain");
+  assert.equal(store.find("forest", "pond")?.name, "Lake");
+  assert.equal(store.find("forest", "fontain")?.name, "Fountain");
+  assert.equal(store.find("forest", "castle"), undefined);
+  assert.deepEqual(store.load("island"), []);
+});
+
+test("nearest measures to the edge of areas", () => {
+  const store = new LandmarkStore(dir, savedDir);
+  assert.deepEqual(store.nearest("forest", { x: 700, y: 440 }), {
+    landmark: store.find("forest", "lake"),
+    distance: 0,
+    inside: true,
+  });
+  const near = store.nearest("forest", { x: 420, y: 330 })!;
+  assert.equal(near.landmark.name, "Fountain");
+  assert.equal(near.distance, 20);
+  assert.equal(near.inside, false);
+});
+
+test("saved landmarks replace same-named ones and are written to disk", () => {
+  const store = new LandmarkStore(dir, savedDir);
+  assert.equal(store.save("island", { name: "Dock", x: 10, y: 20 }), false);
+  assert.equal(store.save("island", { name: "the dock", x: 30, y: 40 }), true);
+
+  const reloaded = new LandmarkStore(dir, savedDir);
+  assert.deepEqual(reloaded.load("island"), [{ name: "the dock", x: 30, y: 40 }]);
+});
+
+test("saved landmarks are kept apart from the bundled ones and win over them", () => {
+  const bundled = fs.readFileSync(path.join(dir, "forest.landmarks.json"), "utf8");
+  const store = new LandmarkStore(dir, savedDir);
+  assert.equal(store.save("forest", { name: "fountain", x: 1, y: 2 }), true);
+  store.save("forest", { name: "Bench", x: 5, y: 5, radius: 10 });
+
+  assert.equal(fs.readFileSync(path.join(dir, "forest.landmarks.json"), "utf8"), bundled);
+  const names = new LandmarkStore(dir, savedDir).load("forest").map((l) => `${l.name} ${l.x}`);
+  assert.deepEqual(names, ["Lake 700", "fountain 1", "Bench 5"]);
+  assert.throws(() => store.save("forest", { name: "Pit", x: 0, y: 0, radius: -5 }), /Invalid radius/);
+  assert.throws(() => store.save("forest", { name: "Pit", x: 0, y: 0, radius: NaN }), /Invalid radius/);
+});
+
+test("malformed landmark files are rejected", () => {
+  const store = new LandmarkStore(dir, savedDir);
+  assert.throws(() => store.load("broken"), /needs a name, x and y/);
+});
@@ -0,0 +1,510 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { RamblyManager } from "../src/manager.ts";
+import type { RamblyPluginConfig } from "../src/types.ts";
+import { FakeRambly, waitFor } from "./helpers/fake-rambly.ts";
+
+let fake: FakeRambly;
+let managers: RamblyManager[] = [];
+let historyDir: string;
+
+before(async () => {
+  fake = await FakeRambly.start();
+  historyDir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-history-"));
+});
+
+after(async () => {
+  await fake.close();
+  fs.rmSync(historyDir, { recursive: true, force: true });
+});
+
+afterEach(async () => {
+  for (const m of managers) await m.leaveAll();
+  managers = [];
+});
+
+function createManager(config: Partial<RamblyPluginConfig> = {}, fakeOptions = {}) {
+  const manager = new RamblyManager({
+    daemonCommand: fake.daemonCommand(fakeOptions),
+    defaultName: "Haku",
+    historyDir,
+    ...config,
+  });
+  managers.push(manager);
+  return manager;
+}
+
+type Heard = { room: string; name: string; text: string; distance: number };
+
+function collectTranscripts(manager: RamblyManager): Heard[] {
+  const heard: Heard[] = [];
+  manager.setTranscriptHandler((room, _from, name, text, distance) => {
+    heard.push({ room, name, text, distance });
+  });
+  return heard;
+}
+
+test("join spawns a daemon with the room and name, leave shuts it down", async () => {
+  const manager = createManager();
+  const daemonReady = fake.waitForDaemon();
+
+  const joined = await manager.join("forest:test");
+  assert.equal(joined.ok, true);
+  assert.deepEqual(joined, { ok: true, room: "forest:test", name: "Haku", character: "king", x: 250, y: 230, alreadyJoined: false });
+
+  const daemon = await daemonReady;
+  assert.equal(daemon.room, "forest:test");
+  assert.equal(daemon.name, "Haku");
+  assert.deepEqual(manager.getRooms(), ["forest:test"]);
+
+  const again = await manager.join("forest:test");
+  assert.equal(again.ok && again.alreadyJoined, true);
+
+  const left = await manager.leave();
+  assert.deepEqual(left, { ok: true, room: "forest:test" });
+  await daemon.waitForCommand((c) => c.action === "leave");
+  assert.deepEqual(manager.getRooms(), []);
+});
+
+test("per-map and per-room settings apply when a room is joined", async () => {
+  const manager = createManager({
+    rooms: { island: { defaultName: "Nami", voice: "echo" }, "island:library": { hearingRadius: 60 } },
+  });
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("island:library");
+  const daemon = await daemonReady;
+
+  assert.equal(daemon.name, "Nami");
+  assert.deepEqual(daemon.args.slice(daemon.args.indexOf("--voice"), daemon.args.indexOf("--voice") + 2), ["--voice", "echo"]);
+  const status = await manager.status("island:library");
+  assert.equal(status.ok && status.rooms[0].hearingRadius, 60);
+  assert.equal(manager.getRoomConfig("forest:other").hearingRadius, 150);
+});
+
+test("join rejects room names without a map prefix", async () => {
+  const manager = createManager();
+  const result = await manager.join("no-map");
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.code, "invalid_room");
+});
+
+test("join tolerates a slow daemon", async () => {
+  const manager = createManager({}, { joinDelayMs: 300 });
+  const result = await manager.join("forest:slow");
+  assert.equal(result.ok, true);
+});
+
+test("each room gets its own daemon and actions need a room once several are joined", async () => {
+  const manager = createManager();
+  await manager.join("forest:standup");
+  await manager.join("island:hangout");
+  assert.deepEqual(manager.getRooms().sort(), ["forest:standup", "island:hangout"]);
+
+  const ambiguous = await manager.speak("hello");
+  assert.equal(!ambiguous.ok && ambiguous.code, "room_required");
+
+  const spoke = await manager.speak("hello", "island:hangout");
+  assert.deepEqual(spoke, { ok: true, room: "island:hangout", text: "hello", spoken: "hello", cutOff: "", interrupted: false, truncated: false });
+
+  const status = await manager.status();
+  assert.equal(status.ok && status.rooms.length, 2);
+});
+
+test("transcripts outside the hearing radius are dropped", async () => {
+  const manager = createManager({ hearingRadius: 150 });
+  const heard = collectTranscripts(manager);
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:radius");
+  const daemon = await daemonReady;
+
+  daemon.emit({ event: "transcript", from: "b", name: "Bob", text: "far away", position: { x: 900, y: 900 } });
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "right here", position: { x: 260, y: 240 } });
+
+  await waitFor(() => heard.length > 0);
+  assert.deepEqual(heard, [{ room: "forest:radius", name: "Alice", text: "right here", distance: 14 }]);
+});
+
+test("the agent's own speech is not fed back as a transcript", async () => {
+  const manager = createManager();
+  const heard = collectTranscripts(manager);
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:echo");
+  const daemon = await daemonReady;
+
+  daemon.emit({ event: "transcript", from: "self", name: "haku", text: "I said this" });
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "I said that" });
+
+  await waitFor(() => heard.length > 0);
+  assert.deepEqual(heard.map((h) => h.name), ["Alice"]);
+});
+
+test("follow walks the target's breadcrumb trail and stops within followDistance", async () => {
+  const manager = createManager(
+    { followDistance: 40, followStepSize: 20 },
+    { peers: [{ id: "d", name: "David", position: { x: 400, y: 230 } }] },
+  );
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:follow");
+  const daemon = await daemonReady;
+
+  const followed = await manager.follow("david");
+  assert.equal(followed.ok, true);
+
+  // David walks down, leaving a corner in the trail
+  daemon.emit({ event: "peer_moved", id: "d", name: "David", position: { x: 400, y: 330 } });
+
+  await waitFor(() => {
+    const pos = manager.getPosition("forest:follow")!;
+    return Math.hypot(pos.x - 400, pos.y - 330) <= 40;
+  }, 5000);
+
+  const steps = daemon.commands.filter((c) => c.action === "move" && c.step === 1);
+  // Went via the corner instead of cutting straight across
+  assert.ok(steps.some((c) => c.action === "move" && c.x >= 380 && c.y <= 240));
+
+  await manager.unfollow();
+});
+
+test("follow waits for a target who drops out and picks them up again under a new id", async () => {
+  const manager = createManager(
+    { followDistance: 40, followGraceMs: 5000 },
+    { peers: [{ id: "d", name: "David", position: { x: 300, y: 230 } }] },
+  );
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:rejoin");
+  const daemon = await daemonReady;
+  await manager.follow("David");
+
+  daemon.emit({ event: "peer_leave", id: "d", name: "David" });
+  await waitFor(async () => {
+    const status = await manager.status("forest:rejoin");
+    return status.ok && status.rooms[0].followState === "waiting";
+  });
+
+  daemon.emit({ event: "peer_join", id: "d2", name: "David", position: { x: 500, y: 230 } });
+  await waitFor(async () => {
+    const status = await manager.status("forest:rejoin");
+    return status.ok && status.rooms[0].followState === "arrived";
+  }, 5000);
+  const status = await manager.status("forest:rejoin");
+  assert.equal(status.ok && status.rooms[0].following, "David");
+  assert.ok(manager.getPosition("forest:rejoin")!.x >= 460);
+  await manager.unfollow();
+});
+
+test("follow gives up and says so once the grace time runs out", async () => {
+  const manager = createManager(
+    { followGraceMs: 200 },
+    { peers: [{ id: "d", name: "David", position: { x: 300, y: 230 } }] },
+  );
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:gone");
+  const daemon = await daemonReady;
+  await manager.follow("David");
+
+  daemon.emit({ event: "peer_leave", id: "d", name: "David" });
+  await daemon.waitForCommand((c) => c.action === "speak" && c.text === "I lost track of David.");
+  const status = await manager.status("forest:gone");
+  assert.equal(status.ok && status.rooms[0].following, null);
+});
+
+test("follow reports the available peers when the name is unknown", async () => {
+  const manager = createManager({}, { peers: [{ id: "d", name: "David" }] });
+  await manager.join("forest:missing");
+  const result = await manager.follow("Zed");
+  assert.equal(result.ok, false);
+  assert.deepEqual(!result.ok && result.availablePeers, ["David"]);
+});
+
+test("a crashed daemon is respawned and put back where it was", async () => {
+  const manager = createManager({ reconnectBaseDelayMs: 50, reconnectMaxDelayMs: 100 });
+  const first = fake.waitForDaemon();
+  await manager.join("forest:crash");
+  const daemon = await first;
+  await manager.move(300, 320);
+
+  const second = fake.waitForDaemon();
+  daemon.crash();
+
+  await waitFor(async () => {
+    const status = await manager.status("forest:crash");
+    return status.ok && status.rooms[0].connection.state === "reconnecting";
+  });
+
+  const respawned = await second;
+  await respawned.waitForCommand((c) => c.action === "move" && c.x === 300 && c.y === 320);
+  await waitFor(async () => {
+    const status = await manager.status("forest:crash");
+    return status.ok && status.rooms[0].connection.state === "connected";
+  });
+});
+
+test("the sprite is picked on join, can be changed, and survives a reconnect", async () => {
+  const manager = createManager({ reconnectBaseDelayMs: 50, reconnectMaxDelayMs: 100 });
+  const first = fake.waitForDaemon();
+  const joined = await manager.join("forest:sprites", undefined, "wizard");
+  assert.equal(joined.ok && joined.character, "wizard");
+  const daemon = await first;
+  assert.deepEqual(daemon.args.slice(-2), ["--character", "wizard"]);
+
+  const changed = await manager.setCharacter("knight");
+  assert.deepEqual(changed, { ok: true, room: "forest:sprites", character: "knight", previous: "wizard" });
+  const invalid = await manager.setCharacter("two words");
+  assert.equal(!invalid.ok && invalid.code, "invalid_params");
+
+  const waved = await manager.emote("wave");
+  assert.deepEqual(waved, { ok: true, room: "forest:sprites", emote: "wave" });
+  const unknown = await manager.emote("backflip");
+  assert.equal(!unknown.ok && unknown.error, "Unknown emote \"backflip\". Available: wave, nod, laugh, shrug, clap.");
+
+  const second = fake.waitForDaemon();
+  daemon.crash();
+  const respawned = await second;
+  await respawned.waitForCommand((c) => c.action === "character" && c.character === "knight");
+  const status = await manager.status("forest:sprites");
+  assert.equal(status.ok && status.rooms[0].character, "knight");
+});
+
+test("move walks around walls on maps with walkability data", async () => {
+  const mapsDir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-maps-"));
+  // Wall below the spawn point, open past x=400; a sealed pocket at the bottom
+  fs.writeFileSync(
+    path.join(mapsDir, "walled.json"),
+    JSON.stringify({
+      width: 500,
+      height: 500,
+      obstacles: [
+        { x: 0, y: 270, w: 400, h: 20 },
+        { x: 0, y: 440, w: 500, h: 10 },
+      ],
+    }),
+  );
+  try {
+    // The map's step size wins over the plugin-wide one
+    const manager = createManager({ mapsDir, followStepSize: 20, rooms: { walled: { followStepSize: 50 } } });
+    const daemonReady = fake.waitForDaemon();
+    await manager.join("walled:test");
+    const daemon = await daemonReady;
+
+    const moved = await manager.move(250, 350);
+    assert.deepEqual(moved, { ok: true, room: "walled:test", x: 250, y: 350, moved: true });
+    const steps = daemon.commands.filter((c) => c.action === "move" && c.step === 1);
+    assert.ok(steps.some((c) => c.action === "move" && c.x >= 400));
+    const strides = steps.slice(1).map((c, i) => {
+      const prev = steps[i] as { x: number; y: number };
+      const cur = c as { x: number; y: number };
+      return Math.hypot(cur.x - prev.x, cur.y - prev.y);
+    });
+    assert.ok(Math.max(...strides) > 40);
+    await daemon.waitForCommand((c) => c.action === "move" && c.step === 0 && c.x === 250 && c.y === 350);
+
+    const unreachable = await manager.move(250, 480);
+    assert.equal(!unreachable.ok && unreachable.code, "unreachable");
+  } finally {
+    fs.rmSync(mapsDir, { recursive: true, force: true });
+  }
+});
+
+test("goto walks to a landmark and save_landmark names the current spot", async () => {
+  const mapsDir = fs.mkdtempSync(path.join(os.tmpdir(), "rambly-maps-"));
+  fs.writeFileSync(
+    path.join(mapsDir, "forest.landmarks.json"),
+    JSON.stringify({ landmarks: [{ name: "fountain", x: 300, y: 260 }] }),
+  );
+  try {
+    const landmarksDir = path.join(mapsDir, "saved");
+    const manager = createManager({ mapsDir, landmarksDir });
+    await manager.join("forest:landmarks");
+
+    const went = await manager.goto("the Fountain");
+    assert.deepEqual(went, { ok: true, room: "forest:landmarks", landmark: "fountain", x: 300, y: 260, moved: true });
+
+    const missing = await manager.goto("castle");
+    assert.equal(!missing.ok && missing.code, "landmark_not_found");
+    assert.deepEqual(!missing.ok && missing.availableLandmarks, ["fountain"]);
+
+    await manager.move(100, 100);
+    const saved = await manager.saveLandmark("campfire", undefined, 30);
+    assert.equal(saved.ok && saved.replaced, false);
+    assert.deepEqual(fs.readdirSync(mapsDir).sort(), ["forest.landmarks.json", "saved"]);
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(landmarksDir, "forest.landmarks.json"), "utf8")), {
+      landmarks: [{ name: "campfire", x: 100, y: 100, radius: 30 }],
+    });
+    for (const radius of [-1, NaN, Infinity]) {
+      const bad = await manager.saveLandmark("pit", undefined, radius);
+      assert.equal(!bad.ok && bad.code, "invalid_params");
+    }
+
+    const status = await manager.status();
+    assert.deepEqual(status.ok && status.rooms[0].nearestLandmark, { name: "campfire", distance: 0, inside: true });
+    const listed = await manager.listLandmarks();
+    assert.deepEqual(listed.ok && listed.landmarks.map((l) => l.name), ["campfire", "fountain"]);
+  } finally {
+    fs.rmSync(mapsDir, { recursive: true, force: true });
+  }
+});
+
+test("heard and spoken lines are logged per room and outlive the session", async () => {
+  const manager = createManager();
+  const heard = collectTranscripts(manager);
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:history");
+  const daemon = await daemonReady;
+
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "anyone seen the fountain", position: { x: 260, y: 240 } });
+  await waitFor(() => heard.length > 0);
+  await manager.speak("It's just north of here");
+  await manager.leave();
+
+  const result = await manager.history({ room: "forest:history" });
+  assert.equal(result.ok && result.total, 2);
+  const [spoke, said] = result.ok ? result.entries : [];
+  assert.equal(spoke.kind, "spoke");
+  assert.equal(spoke.speakerName, "Haku");
+  assert.deepEqual(
+    { kind: said.kind, speakerId: said.speakerId, speakerName: said.speakerName, x: said.x, y: said.y, distance: said.distance },
+    { kind: "heard", speakerId: "a", speakerName: "Alice", x: 260, y: 240, distance: 14 },
+  );
+
+  const search = await manager.history({ text: "fountain", since: "1h" });
+  assert.deepEqual(search.ok && search.entries.map((e) => e.speakerName), ["Alice"]);
+  const bad = await manager.history({ since: "someday" });
+  assert.equal(!bad.ok && bad.code, "invalid_params");
+});
+
+test("peers coming into hearing range are reported and timed in status", async () => {
+  const manager = createManager({ presenceDebounceMs: 200 });
+  const events: string[] = [];
+  manager.setPresenceHandler((e) => events.push(`${e.type}:${e.name}`));
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:presence");
+  const daemon = await daemonReady;
+
+  daemon.emit({ event: "peer_join", id: "a", name: "Alice", position: { x: 900, y: 900 } });
+  await waitFor(() => events.length > 0);
+  daemon.emit({ event: "peer_moved", id: "a", name: "Alice", position: { x: 260, y: 240 } });
+  await waitFor(() => events.length > 1);
+  assert.deepEqual(events, ["joined:Alice", "entered_range:Alice"]);
+
+  const status = await manager.status();
+  const alice = status.ok ? status.rooms[0].peers[0] : null;
+  assert.ok(alice && alice.presentForMs! >= 200 && alice.inRangeForMs! >= 0);
+  assert.deepEqual(status.ok && status.rooms[0].recentPresence.map((e) => e.type), ["joined", "entered_range"]);
+
+  daemon.emit({ event: "peer_leave", id: "a", name: "Alice" });
+  await waitFor(() => events.length > 2);
+  assert.equal(events[2], "left:Alice");
+});
+
+test("speech plays a sentence at a time and a nearby speaker cuts it short", async () => {
+  const manager = createManager({}, { speakMs: 150 });
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:bargein");
+  const daemon = await daemonReady;
+
+  const first = manager.speak("Let me tell you about the forest. It has tall trees everywhere.");
+  const second = manager.speak("And a lake too.");
+  await daemon.waitForCommand((c) => c.action === "speak" && c.text === "It has tall trees everywhere.");
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "wait a sec", position: { x: 260, y: 240 } });
+
+  assert.deepEqual(await first, {
+    ok: true,
+    room: "forest:bargein",
+    text: "Let me tell you about the forest. It has tall trees everywhere.",
+    spoken: "Let me tell you about the forest.",
+    cutOff: "It has tall trees everywhere.",
+    interrupted: true,
+    truncated: false,
+  });
+  const queued = await second;
+  assert.equal(queued.ok && queued.spoken, "");
+  await daemon.waitForCommand((c) => c.action === "stop");
+  assert.ok(!daemon.commands.some((c) => c.action === "speak" && c.text === "And a lake too."));
+
+  const logged = await manager.history({ room: "forest:bargein", speaker: "Haku" });
+  assert.deepEqual(logged.ok && logged.entries.map((e) => e.text), ["Let me tell you about the forest."]);
+});
+
+test("barge-in can be turned off per map", async () => {
+  const manager = createManager({ rooms: { forest: { bargeIn: false } } }, { speakMs: 100 });
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:nobargein");
+  const daemon = await daemonReady;
+
+  const speech = manager.speak("First sentence here. Second sentence here.");
+  await daemon.waitForCommand((c) => c.action === "speak");
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "hello?", position: { x: 260, y: 240 } });
+  const result = await speech;
+  assert.equal(result.ok && result.interrupted, false);
+});
+
+test("markdown is cleaned up before speaking and long replies are cut", async () => {
+  // The room's own limit wins over the plugin-wide one
+  const manager = createManager({ maxSpokenLength: 600, rooms: { forest: { maxSpokenLength: 60 } } });
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:markdown");
+  const daemon = await daemonReady;
+
+  const result = await manager.speak("**Sure!** See https://example.com/docs/page for more. It covers everything you could want to know.");
+  assert.equal(result.ok && result.spoken, "Sure! See example.com for more.");
+  assert.equal(result.ok && result.truncated, true);
+  assert.ok(daemon.commands.every((c) => c.action !== "speak" || !c.text.includes("*")));
+
+  const empty = await manager.speak("🎉 👍");
+  assert.equal(!empty.ok && empty.code, "invalid_params");
+});
+
+test("the agent turns to whoever talks and steps into a group's circle", async () => {
+  const manager = createManager({ hearingRadius: 150, personalSpace: 30 }, {
+    peers: [
+      { id: "a", name: "Alice", position: { x: 500, y: 300 } },
+      { id: "b", name: "Bob", position: { x: 560, y: 300 } },
+      { id: "c", name: "Cleo", position: { x: 530, y: 350 } },
+    ],
+  });
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:circle");
+  const daemon = await daemonReady;
+
+  // Alice is due east, in range
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "hey", position: { x: 350, y: 230 } });
+  const turn = await daemon.waitForCommand((c) => c.action === "move" && c.step === 0);
+  assert.deepEqual(turn, { action: "move", x: 250, y: 230, theta: 0, step: 0 });
+
+  const joined = await manager.joinGroup();
+  assert.ok(joined.ok);
+  assert.deepEqual(joined.members.sort(), ["Alice", "Bob", "Cleo"]);
+  assert.equal(joined.moved, true);
+  for (const p of [{ x: 500, y: 300 }, { x: 560, y: 300 }, { x: 530, y: 350 }]) {
+    const d = Math.hypot(p.x - joined.x, p.y - joined.y);
+    assert.ok(d >= 30 && d <= 150, `distance ${d}`);
+  }
+
+  const again = await manager.joinGroup("bob");
+  assert.equal(again.ok && again.moved, false);
+});
+
+test("the room context has the conversation so far, minus the lines being answered", async () => {
+  const manager = createManager({}, { peers: [{ id: "a", name: "Alice", position: { x: 300, y: 230 } }] });
+  const heard = collectTranscripts(manager);
+  const daemonReady = fake.waitForDaemon();
+  await manager.join("forest:context");
+  const daemon = await daemonReady;
+
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "nice weather today", position: { x: 300, y: 230 } });
+  await waitFor(() => heard.length === 1);
+  await manager.speak("It really is");
+  daemon.emit({ event: "transcript", from: "a", name: "Alice", text: "want to walk to the lake", position: { x: 300, y: 230 } });
+  await waitFor(() => heard.length === 2);
+
+  const context = manager.getRoomContext("forest:context", [{ from: "a", text: "want to walk to the lake" }]);
+  assert.match(context ?? "", /- Alice, 50 away \(in earshot\)/);
+  assert.match(context ?? "", /Alice: nice weather today\n.*You: It really is$/);
+  assert.doesNotMatch(context ?? "", /lake/);
+
+  const off = createManager({ contextTokenBudget: 0 });
+  assert.equal(off.getRoomContext("forest:context"), null);
+});
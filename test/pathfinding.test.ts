@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildWalkMap, clampToWalkable, findPath, hasLineOfSight, isWalkable } from "../src/pathfinding.ts";
+
+// 200x200 with a wall across the middle, open only at the right edge
+const walled = buildWalkMap("walled", {
+  width: 200,
+  height: 200,
+  obstacles: [{ x: 0, y: 90, w: 170, h: 20 }],
+});
+
+test("obstacles and grid rows both block cells", () => {
+  const map = buildWalkMap("mixed", {
+    width: 40,
+    height: 20,
+    obstacles: [{ x: 0, y: 0, w: 10, h: 10 }],
+    grid: ["..#.", "...."],
+  });
+  assert.equal(isWalkable(map, { x: 5, y: 5 }), false);
+  assert.equal(isWalkable(map, { x: 25, y: 5 }), false);
+  assert.equal(isWalkable(map, { x: 15, y: 5 }), true);
+  assert.equal(isWalkable(map, { x: 50, y: 5 }), false);
+});
+
+test("a clear line is walked directly", () => {
+  assert.deepEqual(findPath(walled, { x: 20, y: 20 }, { x: 150, y: 40 }), [{ x: 150, y: 40 }]);
+});
+
+test("paths go around walls", () => {
+  const from = { x: 20, y: 50 };
+  const to = { x: 20, y: 150 };
+  assert.equal(hasLineOfSight(walled, from, to), false);
+
+  const path = findPath(walled, from, to)!;
+  assert.ok(path.length > 1);
+  assert.deepEqual(path[path.length - 1], to);
+  // Every leg is clear, and the route passes through the gap
+  let prev = from;
+  for (const point of path) {
+    assert.ok(hasLineOfSight(walled, prev, point));
+    prev = point;
+  }
+  assert.ok(path.some((p) => p.x >= 170));
+});
+
+test("targets are clamped onto walkable ground", () => {
+  assert.deepEqual(clampToWalkable(walled, { x: 500, y: -20 }), { x: 200, y: 0 });
+  const out = clampToWalkable(walled, { x: 50, y: 95 })!;
+  assert.ok(isWalkable(walled, out));
+  assert.ok(Math.abs(out.y - 95) <= 20);
+});
+
+test("unreachable targets give null", () => {
+  const sealed = buildWalkMap("sealed", {
+    width: 100,
+    height: 100,
+    obstacles: [{ x: 0, y: 40, w: 100, h: 20 }],
+  });
+  assert.equal(findPath(sealed, { x: 50, y: 10 }, { x: 50, y: 90 }), null);
+  assert.equal(findPath(sealed, { x: 50, y: 10 }, { x: 50, y: 50 }), null);
+});
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AccessControl, type CommandDenial } from "../src/permissions.ts";
+import { createDefaultCommands, type CommandContext } from "../src/voice-commands.ts";
+import type { RamblyManager } from "../src/manager.ts";
+
+const options = {
+  owners: ["Dan", "id:peer-7"],
+  trusted: ["alice"],
+  commandPermissions: {},
+  pinnedPeerIds: { dan: ["peer-1"] },
+};
+
+test("tiers come from names or peer ids, and pinned names need a matching id", () => {
+  const access = new AccessControl(options);
+  assert.equal(access.tierOf({ id: "peer-1", name: "dan" }), "owner");
+  assert.equal(access.tierOf({ id: "peer-2", name: "Dan" }), "everyone");
+  assert.equal(access.tierOf({ id: "peer-7", name: "Someone" }), "owner");
+  assert.equal(access.tierOf({ id: "peer-3", name: "Alice" }), "trusted");
+  assert.equal(access.tierOf({ id: "peer-4", name: "Bob" }), "everyone");
+});
+
+test("commands below the speaker's tier are refused and reported", () => {
+  const denials: CommandDenial[] = [];
+  const access = new AccessControl({ ...options, commandPermissions: { follow_me: "everyone" } }, (d) => denials.push(d));
+  const bob = { id: "peer-4", name: "Bob" };
+
+  assert.equal(access.check("forest:a", "follow_me", "trusted", bob), null);
+  assert.equal(access.check("forest:a", "leave", "owner", { id: "peer-3", name: "Alice" }), "Sorry, only my owner can ask me that.");
+  assert.equal(access.check("forest:a", "follow_peer", "trusted", bob), "Sorry, I only take that from people I know.");
+  assert.deepEqual(denials.map((d) => [d.command, d.speaker.name, d.tier, d.required]), [
+    ["leave", "Alice", "trusted", "owner"],
+    ["follow_peer", "Bob", "everyone", "trusted"],
+  ]);
+});
+
+test("a stranger can't make the agent leave by voice", async () => {
+  const calls: string[] = [];
+  const manager = {
+    speak: async () => (calls.push("speak"), { ok: true }),
+    leave: async () => (calls.push("leave"), { ok: true }),
+  } as unknown as RamblyManager;
+  const ctx = (speaker: { id: string; name: string }): CommandContext => ({
+    manager,
+    room: "forest:a",
+    speaker,
+    peers: [],
+    followDistance: 40,
+    access: new AccessControl(options),
+  });
+  const commands = createDefaultCommands();
+
+  assert.equal(await commands.handle("go away", ctx({ id: "peer-4", name: "Bob" })), "Sorry, only my owner can ask me that.");
+  assert.deepEqual(calls, []);
+  // Saying goodbye is just conversation, whoever says it
+  assert.equal(await commands.handle("goodbye", ctx({ id: "peer-4", name: "Bob" })), null);
+  assert.equal(await commands.handle("bye", ctx({ id: "peer-1", name: "Dan" })), null);
+  assert.deepEqual(calls, []);
+  assert.equal(await commands.handle("leave", ctx({ id: "peer-1", name: "Dan" })), "");
+  assert.deepEqual(calls, ["speak", "leave"]);
+});
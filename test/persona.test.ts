@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_PERSONA, formatClock, renderPersona, unknownPersonaVariables } from "../src/persona.ts";
+
+const vars = {
+  agent: "Haku",
+  room: "forest:standup",
+  map: "forest",
+  speaker: "Alice",
+  peers: "Alice, Bob",
+  time: "09:30",
+};
+
+test("the persona template is filled in and unknown variables are left alone", () => {
+  assert.equal(
+    renderPersona("{agent} at {map} ({room}), {time}. {speaker} talks; {peers} listen. {mood}", vars),
+    "Haku at forest (forest:standup), 09:30. Alice talks; Alice, Bob listen. {mood}",
+  );
+  assert.match(renderPersona(DEFAULT_PERSONA, vars), /^You are Haku, in a Rambly .* "forest:standup"\..* Alice is speaking to you\.$/);
+  assert.deepEqual(unknownPersonaVariables("{agent} is {mood} at {Time}"), ["mood", "Time"]);
+  assert.deepEqual(unknownPersonaVariables(DEFAULT_PERSONA), []);
+});
+
+test("the clock is hours and minutes", () => {
+  assert.equal(formatClock(new Date(2026, 0, 5, 7, 4).getTime()), "07:04");
+});
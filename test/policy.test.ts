@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateResponsePolicy, isAddressed, stripAddress } from "../src/policy.ts";
+
+test("the agent's name counts when misheard, but not ordinary words that look like it", () => {
+  assert.equal(isAddressed("Haku, what time is it", ["Haku"]), true);
+  assert.equal(isAddressed("what do you think Hakoo", ["Haku"]), true);
+  assert.equal(isAddressed("hey hako can you come here", ["Haku"]), true);
+  assert.equal(isAddressed("thanks, hako", ["Haku"]), true);
+  assert.equal(isAddressed("ok Mary Ann, over here", ["Mary Ann"]), true);
+
+  assert.equal(isAddressed("I like it", ["Mike"]), false);
+  assert.equal(isAddressed("that is so dark", ["Mark"]), false);
+  assert.equal(isAddressed("the cake was good", ["Kate"]), false);
+  assert.equal(isAddressed("what a hack", ["Haku"]), false);
+  // A vowel slip needs the name to be plainly addressed
+  assert.equal(isAddressed("make the tea", ["Mike"]), false);
+  assert.equal(isAddressed("we saw hako yesterday", ["Haku"]), false);
+});
+
+test("a leading address is stripped before matching commands", () => {
+  assert.equal(stripAddress("Hey Haku, follow me", ["Haku"]), "follow me");
+  assert.equal(stripAddress("hako, come here!", ["Haku"]), "come here!");
+  assert.equal(stripAddress("Hey everyone, follow me", ["Haku"]), "Hey everyone, follow me");
+  assert.equal(stripAddress("make way", ["Mike"]), "make way");
+});
+
+test("each policy decides who gets a reply", () => {
+  const ctx = {
+    agentName: "Haku",
+    aliases: ["bot"],
+    followTarget: "Alice",
+    peersInRange: [{ id: "a", name: "Alice" }, { id: "b", name: "Bob" }],
+  };
+  const alice = { id: "a", name: "Alice", text: "I like it" };
+  assert.equal(evaluateResponsePolicy("always", alice, ctx).respond, true);
+  assert.equal(evaluateResponsePolicy("addressed", alice, ctx).respond, false);
+  assert.equal(evaluateResponsePolicy("addressed", { ...alice, text: "hey bot, hi" }, ctx).respond, true);
+  assert.equal(evaluateResponsePolicy("sole_peer", alice, ctx).respond, false);
+  assert.equal(evaluateResponsePolicy("sole_peer", alice, { ...ctx, peersInRange: [{ id: "a", name: "Alice" }] }).respond, true);
+  assert.equal(evaluateResponsePolicy("follow_target", alice, ctx).respond, true);
+  assert.equal(evaluateResponsePolicy("follow_target", { ...alice, id: "b", name: "Bob" }, ctx).respond, false);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { facing, findGroups, findGroupSpot } from "../src/positioning.ts";
+
+const peer = (id: string, x: number, y: number) => ({ id, name: id, x, y });
+
+test("facing gives the daemon's theta toward a point", () => {
+  assert.equal(facing({ x: 0, y: 0 }, { x: 10, y: 0 }), 0);
+  assert.equal(facing({ x: 0, y: 0 }, { x: 0, y: 10 }), Math.PI / 2);
+});
+
+test("peers chained within the link distance form one group", () => {
+  const groups = findGroups([peer("a", 0, 0), peer("b", 80, 0), peer("c", 160, 0), peer("d", 500, 500)], 100);
+  assert.deepEqual(groups.map((g) => g.map((p) => p.id)), [["a", "b", "c"], ["d"]]);
+});
+
+test("the spot is in earshot of the group, clear of everyone, and on the open side", () => {
+  // Three peers in an arc open to the east
+  const group = [peer("a", 0, -40), peer("b", -40, 0), peer("c", 0, 40)];
+  const spot = findGroupSpot(group, { x: 300, y: 0 }, { hearingRadius: 150, personalSpace: 30 })!;
+  assert.ok(spot.x > 20, `spot ${JSON.stringify(spot)}`);
+  for (const p of group) {
+    const d = Math.hypot(p.x - spot.x, p.y - spot.y);
+    assert.ok(d >= 30 && d <= 150);
+  }
+});
+
+test("no spot when the group is too spread out to hear all at once, or it's all blocked", () => {
+  const wide = [peer("a", 0, 0), peer("b", 400, 0)];
+  assert.equal(findGroupSpot(wide, { x: 0, y: 0 }, { hearingRadius: 150, personalSpace: 30 }), null);
+  const pair = [peer("a", 0, 0), peer("b", 60, 0)];
+  assert.equal(findGroupSpot(pair, { x: 0, y: 0 }, { hearingRadius: 150, personalSpace: 30, walkable: () => false }), null);
+});
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PresenceTracker } from "../src/presence.ts";
+import type { PresenceEvent } from "../src/types.ts";
+
+type Emitted = Omit<PresenceEvent, "room">;
+
+function tracker(debounceMs = 1000) {
+  const events: Emitted[] = [];
+  return { presence: new PresenceTracker(debounceMs, (e) => events.push(e)), events };
+}
+
+test("range changes are reported once they hold for the debounce time", () => {
+  const { presence, events } = tracker();
+  presence.joined({ id: "a", name: "Alice" }, 0);
+  assert.deepEqual(events.map((e) => e.type), ["joined"]);
+
+  presence.update(new Map([["a", 100]]), 150, 100);
+  presence.update(new Map([["a", 100]]), 150, 900);
+  assert.equal(events.length, 1);
+  presence.update(new Map([["a", 100]]), 150, 1100);
+  assert.deepEqual(events[1], { type: "entered_range", peerId: "a", name: "Alice", time: 1100, distance: 100 });
+  assert.equal(presence.get("a")!.inRangeSince, 1100);
+});
+
+test("jitter at the edge of the radius is ignored", () => {
+  const { presence, events } = tracker();
+  presence.sync([{ id: "a", name: "Alice", position: { x: 0, y: 0 } }], () => true, 0);
+
+  // Steps just outside and back, never for a full second
+  for (let t = 0; t <= 5000; t += 250) {
+    presence.update(new Map([["a", t % 500 === 0 ? 155 : 145]]), 150, t);
+  }
+  assert.equal(events.length, 0);
+
+  // Out since t=5000; it sticks a second later
+  presence.update(new Map([["a", 300]]), 150, 5500);
+  assert.equal(events.length, 0);
+  presence.update(new Map([["a", 300]]), 150, 6000);
+  assert.deepEqual(events.map((e) => [e.type, e.durationMs]), [["left_range", 6000]]);
+});
+
+test("leaving the room reports how long the peer was there; syncs are silent", () => {
+  const { presence, events } = tracker();
+  presence.sync([{ id: "a", name: "Alice" }, { id: "b", name: "Bob" }], () => false, 0);
+  presence.sync([{ id: "a", name: "Alice" }], () => false, 10);
+  assert.equal(presence.get("b"), undefined);
+  assert.equal(events.length, 0);
+
+  presence.seen("a", 500);
+  assert.equal(presence.get("a")!.lastSeen, 500);
+  presence.left("a", 60_000);
+  assert.deepEqual(events, [{ type: "left", peerId: "a", name: "Alice", time: 60_000, distance: null, durationMs: 60_000 }]);
+});
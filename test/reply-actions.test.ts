@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseReply, performReply, type ReplyContext } from "../src/reply-actions.ts";
+import { AccessControl } from "../src/permissions.ts";
+import { createDefaultCommands } from "../src/voice-commands.ts";
+import type { RamblyManager } from "../src/manager.ts";
+
+test("replies split into speech and actions in the order written", () => {
+  const reply = parseReply("Sure thing! [[goto Alice]] Here I am. [[ emote  wave ]][[move 300, 200]][[dance]][[emote cartwheel]] Bye");
+  assert.deepEqual(reply.steps, [
+    { say: "Sure thing!" },
+    { act: { action: "goto", target: "Alice" }, directive: "goto Alice" },
+    { say: "Here I am." },
+    { act: { action: "emote", emote: "wave" }, directive: "emote wave" },
+    { act: { action: "move", x: 300, y: 200 }, directive: "move 300, 200" },
+    { say: "Bye" },
+  ]);
+  assert.deepEqual(reply.invalid, [
+    { directive: "dance", error: 'Unknown action "dance"' },
+    { directive: "emote cartwheel", error: 'Unknown emote "cartwheel"; use one of wave, nod, laugh, shrug, clap' },
+  ]);
+  assert.deepEqual(parseReply("[[follow]] [[move 5]]").invalid.map((i) => i.error), ["follow needs a name", "move needs x and y"]);
+});
+
+function stubManager(calls: string[]): RamblyManager {
+  const peers = [
+    { id: "a", name: "Alice", position: { x: 300, y: 230 }, distance: 50 },
+    { id: "b", name: "Bob", position: { x: 400, y: 230 }, distance: 150 },
+  ];
+  let rooms = ["forest:a"];
+  return {
+    getRooms: () => rooms,
+    getPeers: () => peers,
+    findLandmark: (_room: string, name: string) => (name === "the fountain" ? { name: "fountain", x: 0, y: 0 } : undefined),
+    follow: async (name: string) => (calls.push(`follow ${name}`), { ok: true, room: "forest:a", target: name }),
+    approach: async (name: string) => (calls.push(`approach ${name}`), { ok: true, room: "forest:a", x: 260, y: 230, moved: true }),
+    goto: async (name: string) => (calls.push(`goto ${name}`), { ok: true, room: "forest:a", landmark: name, x: 0, y: 0, moved: true }),
+    emote: async (emote: string) => (calls.push(`emote ${emote}`), { ok: true, room: "forest:a", emote }),
+    leave: async () => {
+      calls.push("leave");
+      rooms = [];
+      return { ok: true, room: "forest:a" };
+    },
+  } as unknown as RamblyManager;
+}
+
+function context(manager: RamblyManager, calls: string[], overrides: Partial<ReplyContext> = {}): ReplyContext {
+  return {
+    manager,
+    room: "forest:a",
+    speakers: [{ id: "a", name: "Alice" }],
+    access: new AccessControl({ owners: ["Dan"], trusted: ["Alice"], commandPermissions: {}, pinnedPeerIds: {} }),
+    commands: createDefaultCommands(),
+    followDistance: 40,
+    say: async (text) => (calls.push(`say ${text}`), true),
+    ...overrides,
+  };
+}
+
+test("actions run in order with the speech, and each outcome is reported", async () => {
+  const calls: string[] = [];
+  const manager = stubManager(calls);
+  const reply = parseReply("On my way [[goto alice]] [[goto the fountain]] [[follow Zed]] [[emote nod]] done. [[oops]]");
+  const reports = await performReply(reply, context(manager, calls));
+
+  assert.deepEqual(calls, ["say On my way", "approach Alice", "goto fountain", "emote nod", "say done."]);
+  assert.deepEqual(reports, [
+    '[[oops]]: Not understood: Unknown action "oops".',
+    '[[goto alice]]: Moved to (260, 230) in "forest:a".',
+    "[[goto the fountain]]: Walked to fountain at (0, 0).",
+    '[[follow Zed]]: Error: No one or nothing called "Zed" here. People here: Alice, Bob.',
+    '[[emote nod]]: Played the nod emote in "forest:a".',
+  ]);
+});
+
+test("actions need the speakers' voice-command permissions", async () => {
+  const calls: string[] = [];
+  const manager = stubManager(calls);
+  const access = new AccessControl({
+    owners: ["Dan"],
+    trusted: ["Alice"],
+    commandPermissions: { follow_peer: "trusted" },
+    pinnedPeerIds: {},
+  });
+  const reply = parseReply("[[follow Alice]] [[follow Bob]] [[leave]]");
+  const reports = await performReply(reply, context(manager, calls, { speakers: [{ id: "b", name: "Bob" }], access }));
+
+  // Bob is no one special: following someone else is raised to trusted here, and leaving needs an owner
+  assert.deepEqual(calls, ["follow Bob"]);
+  assert.deepEqual(reports, [
+    "[[follow Alice]]: Not done: Bob isn't allowed to ask for that (needs trusted).",
+    '[[follow Bob]]: Now following "Bob".',
+    "[[leave]]: Not done: Bob isn't allowed to ask for that (needs owner).",
+  ]);
+
+  const trusted = await performReply(parseReply("[[follow Bob]]"), context(manager, calls, { access }));
+  assert.deepEqual(trusted, ['[[follow Bob]]: Now following "Bob".']);
+});
+
+test("with nobody to answer, only actions open to everyone run", async () => {
+  const calls: string[] = [];
+  const manager = stubManager(calls);
+  const reply = parseReply("[[leave]] [[follow Alice]] [[goto the fountain]]");
+  const reports = await performReply(reply, context(manager, calls, { speakers: [] }));
+
+  assert.deepEqual(calls, ["follow Alice", "goto fountain"]);
+  assert.deepEqual(reports, [
+    "[[leave]]: Not done: nobody here asked for that (needs owner).",
+    '[[follow Alice]]: Now following "Alice".',
+    "[[goto the fountain]]: Walked to fountain at (0, 0).",
+  ]);
+});
+
+test("what comes after an interruption or leaving is skipped", async () => {
+  const calls: string[] = [];
+  const manager = stubManager(calls);
+  const cutOff = await performReply(
+    parseReply("Let me think [[emote shrug]]"),
+    context(manager, calls, { say: async () => false }),
+  );
+  assert.deepEqual(cutOff, ["[[emote shrug]]: Skipped; the speech before it didn't finish."]);
+
+  const left = await performReply(
+    parseReply("Bye [[leave]] see you [[emote wave]]"),
+    context(manager, calls, { access: undefined }),
+  );
+  assert.deepEqual(calls, ["say Bye", "leave"]);
+  assert.deepEqual(left, ['[[leave]]: Left room "forest:a".', "[[emote wave]]: Skipped; you had left the room."]);
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildRoomContext, estimateTokens, type RoomContextInput } from "../src/room-context.ts";
+import type { HistoryEntry } from "../src/types.ts";
+
+const NOW = 1_000_000;
+
+function line(kind: HistoryEntry["kind"], speakerName: string, text: string, agoMs: number): HistoryEntry {
+  return { time: NOW - agoMs, room: "forest:test", kind, speakerId: null, speakerName, text, x: null, y: null, distance: null };
+}
+
+function input(overrides: Partial<RoomContextInput> = {}): RoomContextInput {
+  return {
+    room: "forest:test",
+    position: { x: 250, y: 230 },
+    hearingRadius: 150,
+    following: null,
+    followState: null,
+    nearestLandmark: null,
+    peers: [],
+    transcript: [],
+    now: NOW,
+    ...overrides,
+  };
+}
+
+test("the context covers position, follow state, the roster and both sides of the conversation", () => {
+  const context = buildRoomContext(input({
+    following: "Alice",
+    followState: "arrived",
+    nearestLandmark: { name: "the fountain", distance: 0, inside: true },
+    peers: [
+      { name: "Bob", distance: 400 },
+      { name: "Alice", distance: 40 },
+      { name: "Cleo", distance: null },
+    ],
+    transcript: [
+      line("heard", "Alice", "shall we go to the fountain", 30_000),
+      line("spoke", "Haku", "Sure, lead the way", 20_000),
+    ],
+  }), 800);
+
+  assert.equal(context, [
+    'You are in "forest:test" at (250, 230), at the fountain, following Alice (beside them). You hear people within 150 units.',
+    "People here:",
+    "- Alice, 40 away (in earshot)",
+    "- Bob, 400 away",
+    "- Cleo, position unknown",
+    "Recent conversation:",
+    "[30s ago] Alice: shall we go to the fountain",
+    "[20s ago] You: Sure, lead the way",
+  ].join("\n"));
+});
+
+test("trimming drops the oldest lines and the furthest peers first", () => {
+  const transcript = Array.from({ length: 50 }, (_, i) => line("heard", "Alice", `line number ${i} of a long chat`, (50 - i) * 1000));
+  const peers = Array.from({ length: 40 }, (_, i) => ({ name: `Peer${i}`, distance: i * 10 }));
+  const context = buildRoomContext(input({ transcript, peers }), 200);
+
+  assert.ok(estimateTokens(context) <= 200 + 10, `${estimateTokens(context)} tokens`);
+  assert.match(context, /- Peer0, 0 away/);
+  assert.match(context, /- and \d+ more further off/);
+  assert.doesNotMatch(context, /Peer39/);
+  assert.match(context, /line number 49 of/);
+  assert.doesNotMatch(context, /line number 0 of/);
+});
+
+test("an empty room says so", () => {
+  const context = buildRoomContext(input({ following: "Alice", followState: "waiting" }), 800);
+  assert.match(context, /waiting for Alice to come back/);
+  assert.match(context, /Nobody else is here\.$/);
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeForSpeech } from "../src/speech-text.ts";
+
+const speak = (text: string, maxLength = 0) => normalizeForSpeech(text, { maxLength }).text;
+
+test("markdown is stripped, keeping the words", () => {
+  assert.equal(speak("**Yes**, that's _really_ `neat` and ~~bad~~ good."), "Yes, that's really neat and bad good.");
+  assert.equal(speak("See [the docs](https://example.com/docs) ![logo](x.png)"), "See the docs logo");
+  assert.equal(speak("## Plan\n- pack bags\n- walk to the lake\n1. swim"), "Plan. pack bags. walk to the lake. swim.");
+  assert.equal(speak("> quoted line"), "quoted line");
+  assert.equal(speak("| Name | Age |\n|---|---|\n| Ann | 5 |"), "Name, Age. Ann, 5.");
+});
+
+test("code blocks are replaced with a short note", () => {
+  assert.equal(speak("Try this:\n```ts\nconst x = 1;\n```\nThen run it."), "Try this: I'll skip the code here. Then run it.");
+});
+
+test("URLs are read as their domain", () => {
+  assert.equal(speak("Go to https://www.example.com/a/b?c=1."), "Go to example.com.");
+  assert.equal(speak("(see http://docs.rambly.app:8080/x)"), "(see docs.rambly.app)");
+});
+
+test("emoji are dropped", () => {
+  assert.equal(speak("Nice one 🎉👍🏽 friend"), "Nice one friend");
+});
+
+test("abbreviations and units are spoken in full", () => {
+  assert.equal(speak("Bring snacks, e.g. apples & pears."), "Bring snacks, for example apples and pears.");
+  assert.equal(speak("It's 5 km away at 1 mph, about 20% uphill."), "It's 5 kilometers away at 1 mile per hour, about 20 percent uphill.");
+  assert.equal(speak("Mr. Smith vs Dr. Jones"), "Mister Smith versus Doctor Jones");
+});
+
+test("long text is cut at a sentence, or at a word if no sentence fits", () => {
+  const sentences = normalizeForSpeech("One short sentence. Another one follows here. And a third.", { maxLength: 45 });
+  assert.deepEqual(sentences, { text: "One short sentence. Another one follows here.", truncated: true });
+
+  const words = normalizeForSpeech("a very long run on sentence without any stops at all", { maxLength: 20 });
+  assert.deepEqual(words, { text: "a very long run on...", truncated: true });
+
+  assert.deepEqual(normalizeForSpeech("Short.", { maxLength: 0 }), { text: "Short.", truncated: false });
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SpeechQueue, splitSentences } from "../src/speech.ts";
+
+test("text is split into sentences, keeping abbreviations and short bits together", () => {
+  assert.deepEqual(splitSentences("Hi! I'm Haku. Dr. Smith said hello. Where to next?"), [
+    "Hi! I'm Haku.",
+    "Dr. Smith said hello.",
+    "Where to next?",
+  ]);
+  assert.deepEqual(splitSentences("  no punctuation at all  "), ["no punctuation at all"]);
+
+  const long = `${"word ".repeat(30).trim()}, ${"more ".repeat(30).trim()}, ${"end ".repeat(10).trim()}.`;
+  const chunks = splitSentences(long);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every((c) => c.length <= 200));
+  assert.equal(chunks.join(" "), long);
+});
+
+test("queued speech plays in order and an interrupt drops the rest", async () => {
+  const played: string[] = [];
+  let finishCurrent: ((interrupted: boolean) => void) | null = null;
+  const queue = new SpeechQueue(
+    (text) => {
+      played.push(text);
+      return new Promise((resolve) => {
+        finishCurrent = (interrupted) => resolve({ interrupted });
+      });
+    },
+    async () => finishCurrent?.(true),
+  );
+
+  const first = queue.say("One sentence here. Two sentence here.");
+  const second = queue.say("Three sentence here.");
+  assert.equal(queue.active, true);
+
+  finishCurrent!(false);
+  await new Promise((r) => setImmediate(r));
+  assert.deepEqual(played, ["One sentence here.", "Two sentence here."]);
+
+  assert.equal(queue.interrupt(), true);
+  assert.deepEqual(await first, { spoken: ["One sentence here."], cutOff: ["Two sentence here."] });
+  assert.deepEqual(await second, { spoken: [], cutOff: ["Three sentence here."] });
+  assert.equal(queue.active, false);
+  assert.equal(queue.interrupt(), false);
+});
@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TurnManager, type Utterance } from "../src/turns.ts";
+
+const options = { maxQueue: 3, responseDelayMs: 500, mergeWindowMs: 1000 };
+
+function said(from: string, text: string, time: number): Utterance {
+  return { from, name: from.toUpperCase(), text, distance: 10, time };
+}
+
+// Let the handler's promise callbacks run
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+test("a turn waits for a quiet spell, and a speaker's fragments are merged", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const turns: string[][] = [];
+  const manager = new TurnManager(async (batch) => void turns.push(batch.map((u) => `${u.name}: ${u.text}`)), options);
+
+  manager.push(said("a", "hey, can you", 0));
+  t.mock.timers.tick(400);
+  manager.push(said("a", "come over here", 400));
+  manager.push(said("b", "me too", 450));
+  manager.push(said("a", "please", 2000));
+  assert.equal(manager.pending, 3);
+
+  // Each push restarts the quiet period
+  t.mock.timers.tick(499);
+  assert.deepEqual(turns, []);
+  t.mock.timers.tick(1);
+  await settle();
+  assert.deepEqual(turns, [["A: hey, can you come over here", "B: me too", "A: please"]]);
+  assert.equal(manager.pending, 0);
+});
+
+test("the oldest utterances are dropped beyond maxQueue, overheard ones too", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const turns: Array<{ batch: string[]; context: string[] }> = [];
+  const manager = new TurnManager(async (batch, context) => {
+    turns.push({ batch: batch.map((u) => u.text), context: context.map((u) => u.text) });
+  }, options);
+
+  for (const [i, text] of ["one", "two", "three", "four", "five"].entries()) {
+    manager.remember(said("c", `aside ${text}`, i * 2000));
+    manager.push(said(i % 2 ? "a" : "b", text, i * 2000));
+  }
+  t.mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(turns, [{ batch: ["three", "four", "five"], context: ["aside three", "aside four", "aside five"] }]);
+});
+
+test("speech during a reply is queued and answered once the reply is done", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const turns: string[][] = [];
+  let finish!: () => void;
+  const manager = new TurnManager(async (batch) => {
+    turns.push(batch.map((u) => u.text));
+    if (turns.length === 1) await new Promise<void>((resolve) => (finish = resolve));
+  }, options);
+
+  manager.push(said("a", "first", 0));
+  t.mock.timers.tick(500);
+  await settle();
+  assert.equal(manager.busy, true);
+
+  manager.push(said("b", "while you talk", 600));
+  manager.push(said("c", "and another", 700));
+  t.mock.timers.tick(5000);
+  await settle();
+  assert.deepEqual(turns, [["first"]]);
+  assert.equal(manager.pending, 2);
+
+  finish();
+  await settle();
+  assert.equal(manager.busy, false);
+  t.mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(turns, [["first"], ["while you talk", "and another"]]);
+});
+
+test("closing drops the queue and ignores anything said after", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  let calls = 0;
+  const manager = new TurnManager(async () => void calls++, options);
+  manager.push(said("a", "hello", 0));
+  manager.close();
+  manager.push(said("a", "anyone?", 100));
+  t.mock.timers.tick(1000);
+  await settle();
+  assert.equal(calls, 0);
+  assert.equal(manager.pending, 0);
+});
+
+test("a nudge takes a turn with nothing said, and waits out a reply in flight", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const turns: string[][] = [];
+  let finish!: () => void;
+  const manager = new TurnManager(async (batch) => {
+    turns.push(batch.map((u) => u.text));
+    if (turns.length === 1) await new Promise<void>((resolve) => (finish = resolve));
+  }, options);
+
+  manager.nudge();
+  t.mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(turns, [[]]);
+
+  manager.nudge();
+  t.mock.timers.tick(500);
+  await settle();
+  assert.equal(turns.length, 1);
+
+  finish();
+  await settle();
+  t.mock.timers.tick(500);
+  await settle();
+  assert.deepEqual(turns, [[], []]);
+});
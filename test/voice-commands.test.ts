@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createDefaultCommands, normalizeCommand, type CommandContext } from "../src/voice-commands.ts";
+import { matchPeer, nameSimilarity } from "../src/fuzzy.ts";
+import type { RamblyManager } from "../src/manager.ts";
+
+const peers = [
+  { id: "d", name: "David", position: { x: 300, y: 230 } },
+  { id: "m", name: "Mary Ann", position: { x: 200, y: 230 } },
+  { id: "s", name: "Sam", position: { x: 250, y: 300 } },
+];
+
+function context(calls: string[]): CommandContext {
+  const manager = {
+    follow: async (name: string) => (calls.push(`follow ${name}`), { ok: true, room: "forest:a", target: name }),
+    moveBy: async (dx: number, dy: number) => (calls.push(`moveBy ${dx} ${dy}`), { ok: true, moved: true }),
+    approach: async (name: string, stop: number) => (calls.push(`approach ${name} ${stop}`), { ok: true, moved: true }),
+    goto: async (name: string) => (calls.push(`goto ${name}`), { ok: true, moved: true }),
+    findLandmark: (_room: string, name: string) =>
+      ["the fountain", "fountain"].includes(name) ? { name: "fountain", x: 0, y: 0 } : undefined,
+  } as unknown as RamblyManager;
+  return { manager, room: "forest:a", speaker: { id: "s", name: "Sam" }, peers, followDistance: 40 };
+}
+
+test("spoken names match peers despite nicknames, spacing and misspellings", () => {
+  assert.equal(matchPeer("Dave", peers)?.name, "David");
+  assert.equal(matchPeer("mary ann", peers)?.name, "Mary Ann");
+  assert.equal(matchPeer("marianne", peers)?.name, "Mary Ann");
+  assert.equal(matchPeer("mary", peers)?.name, "Mary Ann");
+  assert.equal(matchPeer("Zed", peers), undefined);
+  assert.equal(nameSimilarity("David", "david"), 1);
+  assert.ok(nameSimilarity("Dave", "David") > nameSimilarity("Dave", "Sam"));
+});
+
+test("commands are matched after politeness and punctuation are dropped", () => {
+  assert.equal(normalizeCommand("Could you follow me, please?"), "follow me");
+  assert.equal(normalizeCommand("Can you   MOVE left 50!"), "move left 50");
+});
+
+test("peers, directions and distances fill the command's slots", async () => {
+  const calls: string[] = [];
+  const commands = createDefaultCommands();
+  const ctx = context(calls);
+
+  assert.equal(await commands.handle("follow Mary Ann", ctx), "Following Mary Ann.");
+  assert.equal(await commands.handle("follow Dave", ctx), "Following David.");
+  assert.equal(await commands.handle("please follow me", ctx), "On my way!");
+  assert.equal(await commands.handle("move left 50", ctx), "Moving left 50.");
+  assert.equal(await commands.handle("walk north twenty units", ctx), "Moving up 20.");
+  assert.equal(await commands.handle("step right", ctx), "Moving right 50.");
+  assert.deepEqual(calls, ["follow Mary Ann", "follow David", "follow Sam", "moveBy -50 0", "moveBy 0 -20", "moveBy 50 0"]);
+});
+
+test("moving and following are open to everyone by default, leaving only to owners", () => {
+  const commands = createDefaultCommands();
+  for (const name of ["follow_me", "follow_peer", "unfollow", "come_closer", "go_to_peer", "go_to_landmark", "move_direction"]) {
+    assert.equal(commands.permission(name), "everyone", name);
+  }
+  assert.equal(commands.permission("leave"), "owner");
+});
+
+test("\"go to\" walks to a peer or, failing that, a landmark", async () => {
+  const calls: string[] = [];
+  const commands = createDefaultCommands();
+  const ctx = context(calls);
+
+  assert.equal(await commands.handle("go to David", ctx), "Heading over to David.");
+  assert.equal(await commands.handle("go to the fountain", ctx), "Heading to fountain.");
+  assert.equal(await commands.handle("meet me at the fountain", ctx), "Heading to fountain.");
+  assert.deepEqual(calls, ["approach David 40", "goto fountain", "goto fountain"]);
+});
+
+test("names and places that can't be found get a reply instead of an action", async () => {
+  const calls: string[] = [];
+  const commands = createDefaultCommands();
+  const ctx = context(calls);
+
+  assert.equal(await commands.handle("follow Zed", ctx), "I don't see anyone called zed. I can see David, Mary Ann, Sam.");
+  assert.equal(
+    await commands.handle("follow Zed", { ...ctx, peers: [] }),
+    "I don't see anyone called zed.",
+  );
+  assert.equal(await commands.handle("go to the moon", ctx), "I don't see anyone called the moon. I can see David, Mary Ann, Sam.");
+  assert.equal(await commands.handle("what a lovely day", ctx), null);
+  assert.deepEqual(calls, []);
+});